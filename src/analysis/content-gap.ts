@@ -0,0 +1,227 @@
+import type {
+    ContentGapReport,
+    ContentGapTerm,
+    HeadingLevel,
+    HeadingTopic,
+    PageTermProfile,
+    TermScore,
+    WordCountBenchmark,
+} from '../types/index.js';
+import { tokenizeSegments, tokenizeWords, isStopWord } from './text.js';
+
+const HEADING_LEVELS: HeadingLevel[] = ['h1', 'h2', 'h3'];
+
+// A page must use a term at least this often for it to count as one of the page's terms
+const MIN_TERM_COUNT = 2;
+
+export interface PageText {
+    url: string;
+    /** Main content text, with line breaks between blocks */
+    text: string;
+    headings: Record<HeadingLevel, string[]>;
+}
+
+export interface ContentGapOptions {
+    maxNgram: number;
+    maxTerms: number;
+    minCompetitors: number;
+}
+
+interface TermCounts {
+    url: string;
+    wordCount: number;
+    /** Occurrences per term key */
+    counts: Map<string, number>;
+}
+
+/**
+ * Compares the terms and heading topics of our page with its competitors, using TF-IDF
+ * across all of the pages so terms every page shares rank below distinctive ones
+ */
+export function analyzeContentGap(
+    ours: PageText,
+    competitors: PageText[],
+    options: ContentGapOptions,
+): Omit<ContentGapReport, 'failedUrls'> {
+    const { maxNgram, maxTerms, minCompetitors } = options;
+
+    // Most common spelling of each term key, for display
+    const spellings = new Map<string, Map<string, number>>();
+    const ourCounts = countTerms(ours, maxNgram, spellings);
+    const competitorCounts = competitors.map(page => countTerms(page, maxNgram, spellings));
+    const allCounts = [ourCounts, ...competitorCounts];
+
+    const documentFrequency = new Map<string, number>();
+    for (const { counts } of allCounts) {
+        for (const key of counts.keys()) {
+            documentFrequency.set(key, (documentFrequency.get(key) ?? 0) + 1);
+        }
+    }
+
+    const displayTerm = (key: string): string => {
+        const forms = spellings.get(key);
+        return forms ? Array.from(forms).sort((a, b) => b[1] - a[1])[0][0] : key;
+    };
+
+    const scoreTerm = (page: TermCounts, key: string): TermScore => {
+        const count = page.counts.get(key) ?? 0;
+        const frequency = page.wordCount > 0 ? (count / page.wordCount) * 1000 : 0;
+        // Smoothed IDF, so a term on every page still scores above zero
+        const idf = Math.log((1 + allCounts.length) / (1 + (documentFrequency.get(key) ?? 0))) + 1;
+        return {
+            term: displayTerm(key),
+            n: key.split(' ').length,
+            count,
+            frequency: round(frequency),
+            tfidf: round(frequency * idf),
+        };
+    };
+
+    const profile = (page: PageText, counts: TermCounts): PageTermProfile => ({
+        url: page.url,
+        wordCount: counts.wordCount,
+        headings: page.headings,
+        topTerms: Array.from(counts.counts.keys())
+            .filter(key => counts.counts.get(key)! >= MIN_TERM_COUNT)
+            .map(key => scoreTerm(counts, key))
+            .sort((a, b) => b.tfidf - a.tfidf || b.count - a.count)
+            .slice(0, maxTerms),
+    });
+
+    // Terms enough competitors use that never appear on our page
+    const competitorKeys = new Set(competitorCounts.flatMap(page => Array.from(page.counts.keys())));
+    const missingTerms: ContentGapTerm[] = [];
+    for (const key of competitorKeys) {
+        if (ourCounts.counts.has(key)) continue;
+
+        const users = competitorCounts.filter(page => (page.counts.get(key) ?? 0) >= MIN_TERM_COUNT);
+        if (users.length < minCompetitors) continue;
+
+        const scores = users.map(page => scoreTerm(page, key));
+        missingTerms.push({
+            term: displayTerm(key),
+            n: scores[0].n,
+            competitors: users.map(page => page.url),
+            averageCount: round(average(scores.map(score => score.count))),
+            averageFrequency: round(average(scores.map(score => score.frequency))),
+            averageTfidf: round(average(scores.map(score => score.tfidf))),
+        });
+    }
+    missingTerms.sort((a, b) => b.competitors.length - a.competitors.length || b.averageTfidf - a.averageTfidf);
+
+    return {
+        page: profile(ours, ourCounts),
+        competitors: competitors.map((page, i) => profile(page, competitorCounts[i])),
+        missingTerms: missingTerms.slice(0, maxTerms),
+        headingTopics: findHeadingTopics(ours, competitors).slice(0, maxTerms),
+        wordCount: benchmarkWordCount(ourCounts.wordCount, competitorCounts.map(page => page.wordCount)),
+    };
+}
+
+/**
+ * Counts every n-gram up to maxNgram words. Phrases never span sentence breaks
+ * and never start or end with a stop word.
+ */
+function countTerms(page: PageText, maxNgram: number, spellings: Map<string, Map<string, number>>): TermCounts {
+    const counts = new Map<string, number>();
+
+    for (const segment of tokenizeSegments(page.text)) {
+        for (let n = 1; n <= maxNgram; n++) {
+            for (let i = 0; i + n <= segment.length; i++) {
+                const gram = segment.slice(i, i + n);
+                if (isStopWord(gram[0]) || isStopWord(gram[n - 1])) continue;
+
+                const key = gram.map(token => token.key).join(' ');
+                counts.set(key, (counts.get(key) ?? 0) + 1);
+
+                const spelling = gram.map(token => token.word).join(' ');
+                const forms = spellings.get(key) ?? new Map<string, number>();
+                forms.set(spelling, (forms.get(spelling) ?? 0) + 1);
+                spellings.set(key, forms);
+            }
+        }
+    }
+
+    return {
+        url: page.url,
+        wordCount: page.text.split(/\s+/).filter(Boolean).length,
+        counts,
+    };
+}
+
+/**
+ * Groups competitor headings by their terms and checks how much of each topic our page covers
+ */
+function findHeadingTopics(ours: PageText, competitors: PageText[]): HeadingTopic[] {
+    const ourTerms = new Set(
+        tokenizeWords([ours.text, ...HEADING_LEVELS.flatMap(level => ours.headings[level])].join(' '))
+            .map(token => token.key),
+    );
+    const ourHeadingTerms = HEADING_LEVELS
+        .flatMap(level => ours.headings[level])
+        .map(heading => new Set(tokenizeWords(heading).map(token => token.key)));
+
+    const topics = new Map<string, { heading: string; level: HeadingLevel; competitors: Set<string>; terms: Map<string, string> }>();
+
+    for (const competitor of competitors) {
+        for (const level of HEADING_LEVELS) {
+            for (const heading of competitor.headings[level]) {
+                const terms = new Map(
+                    tokenizeWords(heading)
+                        .filter(token => !isStopWord(token))
+                        .map(token => [token.key, token.word]),
+                );
+                if (terms.size === 0) continue;
+
+                // Headings with the same terms are the same topic, whatever their wording
+                const topicKey = Array.from(terms.keys()).sort().join(' ');
+                const topic = topics.get(topicKey);
+                if (topic) {
+                    topic.competitors.add(competitor.url);
+                } else {
+                    topics.set(topicKey, { heading, level, competitors: new Set([competitor.url]), terms });
+                }
+            }
+        }
+    }
+
+    return Array.from(topics.values())
+        .map(topic => {
+            const keys = Array.from(topic.terms.keys());
+            const found = keys.filter(key => ourTerms.has(key));
+            return {
+                heading: topic.heading,
+                level: topic.level,
+                competitors: Array.from(topic.competitors),
+                coverage: round(found.length / keys.length),
+                inOurHeadings: ourHeadingTerms.some(terms =>
+                    keys.filter(key => terms.has(key)).length * 2 >= keys.length,
+                ),
+                missingTerms: keys.filter(key => !ourTerms.has(key)).map(key => topic.terms.get(key)!),
+            };
+        })
+        .sort((a, b) => b.competitors.length - a.competitors.length || a.coverage - b.coverage);
+}
+
+function benchmarkWordCount(ours: number, competitors: number[]): WordCountBenchmark {
+    const sorted = [...competitors].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+    return {
+        ours,
+        competitorMin: sorted[0],
+        competitorMax: sorted[sorted.length - 1],
+        competitorAverage: Math.round(average(sorted)),
+        competitorMedian: Math.round(median),
+        differenceFromMedian: ours - Math.round(median),
+    };
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,58 @@
+// Languages told apart by their script alone, checked in order (kana before Han, so Japanese wins)
+const SCRIPTS: Array<[RegExp, string]> = [
+    [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'],
+    [/\p{Script=Hangul}/gu, 'ko'],
+    [/\p{Script=Han}/gu, 'zh'],
+    [/\p{Script=Cyrillic}/gu, 'ru'],
+    [/\p{Script=Arabic}/gu, 'ar'],
+    [/\p{Script=Hebrew}/gu, 'he'],
+    [/\p{Script=Greek}/gu, 'el'],
+    [/\p{Script=Thai}/gu, 'th'],
+    [/\p{Script=Devanagari}/gu, 'hi'],
+];
+
+// The most frequent function words of each Latin-script language, with little overlap between languages
+const FUNCTION_WORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'is', 'was', 'it', 'to', 'of', 'with', 'this', 'that', 'for', 'very', 'they', 'have', 'but', 'not', 'my', 'you', 'are', 'were'],
+    es: ['el', 'la', 'los', 'las', 'y', 'es', 'muy', 'que', 'con', 'por', 'para', 'una', 'pero', 'lo', 'del', 'fue', 'todo', 'mi', 'se', 'como'],
+    fr: ['le', 'la', 'les', 'et', 'est', 'très', 'que', 'avec', 'pour', 'une', 'mais', 'pas', 'je', 'nous', 'ce', 'du', 'des', 'été', 'sur', 'vous'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'sehr', 'mit', 'nicht', 'ich', 'wir', 'ein', 'eine', 'auf', 'für', 'war', 'aber', 'auch', 'zu', 'den', 'sich'],
+    it: ['il', 'la', 'gli', 'e', 'è', 'molto', 'che', 'con', 'per', 'una', 'ma', 'non', 'sono', 'del', 'della', 'mi', 'ho', 'ci', 'tutto', 'anche'],
+    pt: ['o', 'os', 'as', 'e', 'é', 'muito', 'que', 'com', 'para', 'uma', 'mas', 'não', 'foi', 'do', 'da', 'eu', 'em', 'bem', 'tudo', 'você'],
+    nl: ['de', 'het', 'en', 'is', 'zeer', 'erg', 'met', 'niet', 'ik', 'wij', 'een', 'op', 'voor', 'was', 'maar', 'ook', 'van', 'dat', 'heel', 'goed'],
+    sv: ['och', 'är', 'det', 'att', 'en', 'mycket', 'med', 'inte', 'jag', 'vi', 'som', 'för', 'var', 'men', 'också', 'på', 'av', 'har', 'bra', 'till'],
+    da: ['og', 'er', 'det', 'at', 'en', 'meget', 'med', 'ikke', 'jeg', 'vi', 'som', 'for', 'var', 'men', 'også', 'på', 'af', 'har', 'godt', 'til'],
+    pl: ['i', 'jest', 'to', 'nie', 'się', 'na', 'bardzo', 'że', 'z', 'w', 'ale', 'jak', 'do', 'mi', 'był', 'co', 'tak', 'po', 'za', 'dla'],
+    tr: ['ve', 'bir', 'bu', 'çok', 'için', 'ile', 'da', 'de', 'ama', 'değil', 'ben', 'gibi', 'daha', 'olarak', 'var', 'yok', 'en', 'her', 'şey', 'iyi'],
+};
+
+const WORD_SETS = Object.entries(FUNCTION_WORDS).map(([language, words]) => [language, new Set(words)] as const);
+
+// Fewer function words than this is too little evidence to name a Latin-script language
+const MIN_FUNCTION_WORDS = 2;
+
+/**
+ * ISO 639-1 code of the text's language, or null when it is too short or ambiguous to tell.
+ * Non-Latin scripts decide on their own; Latin-script text is scored by function words.
+ */
+export function detectLanguage(text: string): string | null {
+    const letters = (text.match(/\p{L}/gu) ?? []).length;
+    if (letters === 0) return null;
+
+    for (const [pattern, language] of SCRIPTS) {
+        const count = (text.match(pattern) ?? []).length;
+        if (count / letters < 0.3) continue;
+        // Ukrainian has letters Russian lacks
+        if (language === 'ru' && /[іїєґ]/i.test(text)) return 'uk';
+        return language;
+    }
+
+    const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+    const scores = WORD_SETS
+        .map(([language, set]) => ({ language, score: words.filter(word => set.has(word)).length }))
+        .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scores;
+    if (best.score < MIN_FUNCTION_WORDS || best.score === runnerUp.score) return null;
+    return best.language;
+}
@@ -0,0 +1,122 @@
+import type { LinkGraph } from '../types/index.js';
+
+/**
+ * GEXF 1.3 document for Gephi: directed edges weighted by link count, node depth, link counts,
+ * PageRank and sitemap flags as attributes
+ */
+export function toGexf(graph: LinkGraph): string {
+    const ids = new Map(graph.nodes.map((node, i) => [node.url, `n${i}`]));
+    const orphans = new Set(graph.orphanCandidates);
+
+    const nodeAttributes: Array<[string, string]> = [
+        ['depth', 'integer'],
+        ['inbound', 'integer'],
+        ['outbound', 'integer'],
+        ['pageRank', 'double'],
+        ['crawled', 'boolean'],
+        ['inSitemap', 'boolean'],
+        ['orphanCandidate', 'boolean'],
+    ];
+    const edgeAttributes: Array<[string, string]> = [
+        ['anchorTexts', 'string'],
+        ['nofollow', 'boolean'],
+    ];
+
+    const attributeDeclarations = (kind: 'node' | 'edge', attributes: Array<[string, string]>) => [
+        `    <attributes class="${kind}">`,
+        ...attributes.map(([title, type]) => `      <attribute id="${title}" title="${title}" type="${type}"/>`),
+        '    </attributes>',
+    ];
+    const attributeValues = (values: Record<string, string | number | boolean | null>) => {
+        const entries = Object.entries(values)
+            .filter(([, value]) => value !== null)
+            .map(([key, value]) => `<attvalue for="${key}" value="${escapeXml(String(value))}"/>`);
+        return `<attvalues>${entries.join('')}</attvalues>`;
+    };
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+        `  <meta lastmodifieddate="${graph.crawledAt.slice(0, 10)}">`,
+        '    <creator>SEO Crawler API</creator>',
+        `    <description>Internal links of ${escapeXml(graph.site)}</description>`,
+        '  </meta>',
+        '  <graph defaultedgetype="directed" mode="static">',
+        ...attributeDeclarations('node', nodeAttributes),
+        ...attributeDeclarations('edge', edgeAttributes),
+        '    <nodes>',
+        ...graph.nodes.map(node => `      <node id="${ids.get(node.url)}" label="${escapeXml(node.url)}">${attributeValues({
+            depth: node.depth,
+            inbound: node.inbound,
+            outbound: node.outbound,
+            pageRank: node.pageRank,
+            crawled: node.crawled,
+            inSitemap: node.inSitemap,
+            orphanCandidate: orphans.has(node.url),
+        })}</node>`),
+        '    </nodes>',
+        '    <edges>',
+        ...graph.edges.map((edge, i) =>
+            `      <edge id="e${i}" source="${ids.get(edge.source)}" target="${ids.get(edge.target)}" weight="${edge.count}">${attributeValues({
+                anchorTexts: edge.anchorTexts.join(' | '),
+                nofollow: edge.nofollow,
+            })}</edge>`),
+        '    </edges>',
+        '  </graph>',
+        '</gexf>',
+    ];
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Edge list with Gephi's Source, Target, Type and Weight columns
+ */
+export function toEdgeCsv(graph: LinkGraph): string {
+    return toCsv(
+        ['Source', 'Target', 'Type', 'Weight', 'Nofollow', 'AnchorTexts'],
+        graph.edges.map(edge => [edge.source, edge.target, 'Directed', edge.count, edge.nofollow, edge.anchorTexts.join(' | ')]),
+    );
+}
+
+/**
+ * Node table with Gephi's Id and Label columns, for importing node attributes alongside the edge list
+ */
+export function toNodeCsv(graph: LinkGraph): string {
+    const orphans = new Set(graph.orphanCandidates);
+    return toCsv(
+        ['Id', 'Label', 'Depth', 'Inbound', 'Outbound', 'PageRank', 'Crawled', 'InSitemap', 'OrphanCandidate'],
+        graph.nodes.map(node => [
+            node.url,
+            node.url,
+            node.depth,
+            node.inbound,
+            node.outbound,
+            node.pageRank,
+            node.crawled,
+            node.inSitemap,
+            orphans.has(node.url),
+        ]),
+    );
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | boolean | null>>): string {
+    const cell = (value: string | number | boolean | null) => {
+        const text = value === null ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [header, ...rows].map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escapes markup characters and drops control characters XML does not allow
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,141 @@
+import type { LinkGraph, LinkGraphEdge, LinkGraphNode, LinkGraphSummary, PageLink } from '../types/index.js';
+
+// Classic PageRank damping: the chance a visitor follows a link instead of jumping to a random page
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const CONVERGENCE = 1e-9;
+
+const MAX_ANCHOR_TEXTS = 10;
+const TOP_PAGES = 10;
+
+export interface LinkGraphInput {
+    site: string;
+    startUrls: string[];
+    /** Internal anchor links of each crawled page, as normalized page URLs */
+    pageLinks: Map<string, PageLink[]>;
+    sitemapPages: Set<string>;
+    truncated: boolean;
+    crawledAt: string;
+}
+
+/**
+ * Builds the internal link graph of a site crawl: click depth from the start URLs, link counts,
+ * PageRank over followed links and sitemap pages nothing links to
+ */
+export function buildLinkGraph(input: LinkGraphInput): LinkGraph {
+    const { site, startUrls, pageLinks, sitemapPages, truncated, crawledAt } = input;
+
+    // One edge per source and target; self-links are dropped
+    const edgeMap = new Map<string, LinkGraphEdge & { texts: Set<string> }>();
+    for (const [source, links] of pageLinks) {
+        for (const link of links) {
+            if (link.url === source) continue;
+
+            const key = `${source}\n${link.url}`;
+            const edge = edgeMap.get(key) ?? {
+                source,
+                target: link.url,
+                count: 0,
+                anchorTexts: [],
+                nofollow: true,
+                texts: new Set<string>(),
+            };
+            edge.count++;
+            edge.nofollow &&= link.nofollow === true;
+            if (link.text && edge.texts.size < MAX_ANCHOR_TEXTS) edge.texts.add(link.text);
+            edgeMap.set(key, edge);
+        }
+    }
+    const edges: LinkGraphEdge[] = Array.from(edgeMap.values())
+        .map(({ texts, ...edge }) => ({ ...edge, anchorTexts: Array.from(texts) }));
+
+    const urls = Array.from(new Set([...startUrls, ...pageLinks.keys(), ...edges.map(edge => edge.target), ...sitemapPages]));
+    const outgoing = new Map<string, LinkGraphEdge[]>(urls.map(url => [url, []]));
+    const inbound = new Map<string, number>(urls.map(url => [url, 0]));
+    for (const edge of edges) {
+        outgoing.get(edge.source)!.push(edge);
+        inbound.set(edge.target, inbound.get(edge.target)! + 1);
+    }
+
+    const depths = computeClickDepths(startUrls, outgoing);
+    const pageRank = computePageRank(urls, outgoing);
+
+    const nodes: LinkGraphNode[] = urls
+        .map(url => ({
+            url,
+            depth: depths.get(url) ?? null,
+            inbound: inbound.get(url)!,
+            outbound: outgoing.get(url)!.length,
+            pageRank: Math.round(pageRank.get(url)! * 1e6) / 1e6,
+            crawled: pageLinks.has(url),
+            inSitemap: sitemapPages.has(url),
+        }))
+        .sort((a, b) => b.pageRank - a.pageRank || a.url.localeCompare(b.url));
+
+    const starts = new Set(startUrls);
+    const orphanCandidates = nodes
+        .filter(node => node.inSitemap && node.inbound === 0 && !starts.has(node.url))
+        .map(node => node.url)
+        .sort();
+
+    return { site, startUrls, crawledAt, truncated, nodes, edges, orphanCandidates };
+}
+
+export function summarizeLinkGraph(graph: LinkGraph): LinkGraphSummary {
+    return {
+        nodes: graph.nodes.length,
+        edges: graph.edges.length,
+        maxDepth: Math.max(0, ...graph.nodes.map(node => node.depth ?? 0)),
+        topPages: graph.nodes.slice(0, TOP_PAGES).map(({ url, pageRank }) => ({ url, pageRank })),
+        orphanCandidates: graph.orphanCandidates,
+    };
+}
+
+/**
+ * Breadth-first search from the start URLs over every link, nofollow included, since visitors can click them
+ */
+function computeClickDepths(startUrls: string[], outgoing: Map<string, LinkGraphEdge[]>): Map<string, number> {
+    const depths = new Map<string, number>(startUrls.map(url => [url, 0]));
+    let frontier = [...startUrls];
+
+    for (let depth = 1; frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const url of frontier) {
+            for (const edge of outgoing.get(url) ?? []) {
+                if (depths.has(edge.target)) continue;
+                depths.set(edge.target, depth);
+                next.push(edge.target);
+            }
+        }
+        frontier = next;
+    }
+
+    return depths;
+}
+
+/**
+ * Power iteration over followed links. Pages without followed links (including uncrawled ones)
+ * spread their rank evenly over all pages.
+ */
+function computePageRank(urls: string[], outgoing: Map<string, LinkGraphEdge[]>): Map<string, number> {
+    const count = urls.length;
+    const index = new Map(urls.map((url, i) => [url, i]));
+    const followed = urls.map(url => outgoing.get(url)!.filter(edge => !edge.nofollow).map(edge => index.get(edge.target)!));
+
+    let rank = new Array<number>(count).fill(1 / count);
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const dangling = followed.reduce((sum, targets, i) => targets.length === 0 ? sum + rank[i] : sum, 0);
+        const next = new Array<number>(count).fill((1 - DAMPING) / count + DAMPING * dangling / count);
+
+        followed.forEach((targets, i) => {
+            const share = DAMPING * rank[i] / targets.length;
+            for (const target of targets) next[target] += share;
+        });
+
+        const delta = next.reduce((sum, value, i) => sum + Math.abs(value - rank[i]), 0);
+        rank = next;
+        if (delta < CONVERGENCE) break;
+    }
+
+    return new Map(urls.map((url, i) => [url, rank[i]]));
+}
@@ -0,0 +1,228 @@
+import type {
+    ComplaintPhrase,
+    Review,
+    ReviewAnalysis,
+    ReviewAnalysisReport,
+    ReviewAspect,
+    ReviewAspectSentiment,
+    ReviewAspectSummary,
+    ReviewSentiment,
+    SentimentCounts,
+} from '../types/index.js';
+import { tokenizeSegments, tokenizeWords, isStopWord, type Token } from './text.js';
+import { scoreSegment, normalizeSentiment, labelSentiment } from './sentiment.js';
+
+export const MAX_ANALYZED_REVIEWS = 10000;
+
+// Words and phrases that put a sentence about an aspect, matched on plural-folded keys
+const ASPECT_TERMS: Record<ReviewAspect, string[]> = {
+    support: [
+        'support', 'customer service', 'customer care', 'service', 'help desk', 'helpdesk', 'agent', 'rep',
+        'representative', 'staff', 'ticket', 'live chat', 'response time', 'reply', 'responsive', 'unresponsive',
+    ],
+    pricing: [
+        'price', 'pricing', 'cost', 'expensive', 'overpriced', 'pricey', 'cheap', 'affordable', 'subscription',
+        'plan', 'billing', 'invoice', 'fee', 'value for money', 'money', 'refund', 'charge', 'charged', 'renewal',
+    ],
+    onboarding: [
+        'onboarding', 'setup', 'set up', 'getting started', 'implementation', 'migration', 'learning curve',
+        'training', 'tutorial', 'installation', 'install', 'documentation', 'docs', 'demo',
+    ],
+    usability: [
+        'easy to use', 'ease of use', 'user friendly', 'user-friendly', 'intuitive', 'interface', 'ui', 'ux',
+        'navigate', 'navigation', 'design', 'confusing', 'clunky', 'dashboard', 'layout',
+    ],
+    performance: [
+        'slow', 'fast', 'speed', 'performance', 'lag', 'laggy', 'crash', 'bug', 'buggy', 'glitch', 'downtime',
+        'outage', 'reliable', 'reliability', 'unreliable', 'stable', 'unstable', 'load time', 'loading',
+    ],
+    features: [
+        'feature', 'functionality', 'integration', 'api', 'reporting', 'report', 'customization', 'automation',
+        'workflow', 'analytics', 'export', 'mobile app',
+    ],
+    delivery: [
+        'delivery', 'delivered', 'shipping', 'shipped', 'arrived', 'package', 'parcel', 'courier', 'tracking',
+        'order', 'dispatch',
+    ],
+    quality: [
+        'quality', 'durable', 'broken', 'broke', 'damaged', 'defective', 'material', 'build quality', 'well made',
+    ],
+};
+
+const ASPECTS = Object.keys(ASPECT_TERMS) as ReviewAspect[];
+
+// Aspect terms as plural-folded key sequences, grouped by their first key for lookup
+const ASPECT_INDEX = buildAspectIndex();
+
+// Phrases from 2 to this many words are counted as complaint candidates
+const MAX_COMPLAINT_NGRAM = 5;
+const MIN_COMPLAINT_REVIEWS = 2;
+const MAX_COMPLAINTS = 15;
+
+/**
+ * Scores every review and summarizes them: sentiment counts, per-aspect sentiment,
+ * repeated complaint phrases and the star rating histogram
+ */
+export function analyzeReviews(reviews: Review[]): ReviewAnalysisReport {
+    const analyzed = reviews.map(review => ({ ...review, sentiment: analyzeReview(review) }));
+    const sentiments = analyzed.map(review => review.sentiment);
+
+    const aspectScores = new Map<ReviewAspect, number[]>();
+    for (const sentiment of sentiments) {
+        for (const { aspect, score } of sentiment.aspects) {
+            const scores = aspectScores.get(aspect) ?? [];
+            scores.push(score);
+            aspectScores.set(aspect, scores);
+        }
+    }
+    const aspects: ReviewAspectSummary[] = Array.from(aspectScores, ([aspect, scores]) => {
+        const averageScore = round(average(scores));
+        return {
+            aspect,
+            mentions: scores.length,
+            averageScore,
+            label: labelSentiment(averageScore),
+            ...countLabels(scores),
+        };
+    }).sort((a, b) => b.mentions - a.mentions || a.averageScore - b.averageScore);
+
+    const negative = analyzed.filter(isNegativeReview);
+
+    const analysis: ReviewAnalysis = {
+        sentiment: {
+            averageScore: round(average(sentiments.map(sentiment => sentiment.score))),
+            ...countLabels(sentiments.map(sentiment => sentiment.score)),
+        },
+        aspects,
+        complaints: findComplaintPhrases(negative.map(review => review.reviewText)),
+        ratingDistribution: rateDistribution(reviews),
+    };
+
+    return { reviews: analyzed, analysis };
+}
+
+/**
+ * Negative sentiment, or rated 2 stars or lower. Reviews not analyzed yet are scored on the fly.
+ */
+export function isNegativeReview(review: Review): boolean {
+    return (review.sentiment ?? analyzeReview(review)).label === 'negative' || (review.rating > 0 && review.rating <= 2);
+}
+
+/**
+ * Sentiment of one review's text, and of the sentences mentioning each aspect. Sentences about
+ * an aspect without sentiment words take the review's overall score.
+ */
+function analyzeReview(review: Pick<Review, 'reviewText' | 'rating'>): ReviewSentiment {
+    const segments = tokenizeSegments(review.reviewText ?? '');
+    const scored = segments.map(tokens => ({ tokens, ...scoreSegment(tokens) }));
+
+    const hits = scored.reduce((sum, segment) => sum + segment.hits, 0);
+    const score = hits > 0
+        ? normalizeSentiment(scored.reduce((sum, segment) => sum + segment.sum, 0))
+        : ratingScore(review.rating);
+
+    const aspects: ReviewAspectSentiment[] = [];
+    for (const aspect of ASPECTS) {
+        const mentioning = scored.filter(segment => mentionsAspect(segment.tokens, aspect));
+        if (mentioning.length === 0) continue;
+
+        const aspectHits = mentioning.reduce((sum, segment) => sum + segment.hits, 0);
+        const aspectScore = aspectHits > 0
+            ? normalizeSentiment(mentioning.reduce((sum, segment) => sum + segment.sum, 0))
+            : score;
+        aspects.push({ aspect, score: aspectScore, label: labelSentiment(aspectScore) });
+    }
+
+    return { score, label: labelSentiment(score), aspects };
+}
+
+/**
+ * Phrases several negative reviews share, counted once per review. A phrase is dropped when
+ * a longer phrase containing it occurs in as many reviews.
+ */
+function findComplaintPhrases(texts: string[]): ComplaintPhrase[] {
+    const counts = new Map<string, number>();
+
+    for (const text of texts) {
+        const phrases = new Set<string>();
+        for (const segment of tokenizeSegments(text)) {
+            for (let n = 2; n <= MAX_COMPLAINT_NGRAM; n++) {
+                for (let i = 0; i + n <= segment.length; i++) {
+                    const gram = segment.slice(i, i + n);
+                    if (isStopWord(gram[0]) || isStopWord(gram[n - 1])) continue;
+                    phrases.add(gram.map(token => token.word).join(' '));
+                }
+            }
+        }
+        for (const phrase of phrases) {
+            counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+        }
+    }
+
+    const frequent = Array.from(counts).filter(([, count]) => count >= MIN_COMPLAINT_REVIEWS);
+
+    const subsumed = new Set<string>();
+    for (const [phrase, count] of frequent) {
+        const words = phrase.split(' ');
+        for (let n = 2; n < words.length; n++) {
+            for (let i = 0; i + n <= words.length; i++) {
+                const part = words.slice(i, i + n).join(' ');
+                if ((counts.get(part) ?? 0) <= count) subsumed.add(part);
+            }
+        }
+    }
+
+    return frequent
+        .filter(([phrase]) => !subsumed.has(phrase))
+        .sort((a, b) => b[1] - a[1] || b[0].split(' ').length - a[0].split(' ').length || a[0].localeCompare(b[0]))
+        .slice(0, MAX_COMPLAINTS)
+        .map(([phrase, count]) => ({ phrase, count }));
+}
+
+function rateDistribution(reviews: Review[]): ReviewAnalysis['ratingDistribution'] {
+    const distribution = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+    for (const { rating } of reviews) {
+        if (!(rating > 0)) continue;
+        const stars = String(Math.min(5, Math.max(1, Math.round(rating)))) as keyof typeof distribution;
+        distribution[stars]++;
+    }
+    return distribution;
+}
+
+function mentionsAspect(tokens: Token[], aspect: ReviewAspect): boolean {
+    return tokens.some((token, i) => (ASPECT_INDEX.get(token.key) ?? []).some(term =>
+        term.aspect === aspect && term.keys.every((key, j) => tokens[i + j]?.key === key)));
+}
+
+function buildAspectIndex(): Map<string, Array<{ aspect: ReviewAspect; keys: string[] }>> {
+    const index = new Map<string, Array<{ aspect: ReviewAspect; keys: string[] }>>();
+    for (const aspect of ASPECTS) {
+        for (const term of ASPECT_TERMS[aspect]) {
+            const keys = tokenizeWords(term).map(token => token.key);
+            if (keys.length === 0) continue;
+            index.set(keys[0], [...(index.get(keys[0]) ?? []), { aspect, keys }]);
+        }
+    }
+    return index;
+}
+
+/**
+ * -1 for one star to 1 for five; 0 when the review has no rating
+ */
+function ratingScore(rating: number): number {
+    return rating > 0 ? round((Math.min(5, Math.max(1, rating)) - 3) / 2) : 0;
+}
+
+function countLabels(scores: number[]): SentimentCounts {
+    const counts: SentimentCounts = { positive: 0, neutral: 0, negative: 0 };
+    for (const score of scores) counts[labelSentiment(score)]++;
+    return counts;
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,112 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Month name prefixes in English, Spanish, French, German, Italian, Portuguese and Dutch, by month index
+const MONTHS: Array<[RegExp, number]> = [
+    [/^(jan|ene|gen)/, 0],
+    [/^(feb|fév|fev)/, 1],
+    [/^(mar|mär|maa)/, 2],
+    [/^(apr|avr|abr)/, 3],
+    [/^(may|mai|mag|mei)/, 4],
+    [/^(jun|juin|giu)/, 5],
+    [/^(jul|juil|lug)/, 6],
+    [/^(aug|aoû|aou|ago)/, 7],
+    [/^(sep|set)/, 8],
+    [/^(oct|okt|ott|out)/, 9],
+    [/^nov/, 10],
+    [/^(dec|déc|dez|dic)/, 11],
+];
+
+// Relative-date units in English, Spanish, French, German, Italian, Portuguese and Dutch, in days
+const UNITS: Array<[RegExp, number]> = [
+    [/^(years?|yrs?|años?|anos?|ans?|années?|jahre?n?|anno|anni|jaar|jaren)$/, 365],
+    [/^(months?|mes|meses|mois|monate?n?|mese|mesi|maand|maanden)$/, 30],
+    [/^(weeks?|wks?|semanas?|semaines?|wochen?|settimana|settimane|weken)$/, 7],
+    [/^(days?|días?|dias?|jours?|tage?n?|giorno|giorni|dag|dagen)$/, 1],
+    [/^(hours?|hrs?|horas?|heures?|stunden?|ora|ore|uur|minutes?|mins?|minutos?|minuten?|minuti|seconds?|secs?|segundos?|secondes?|sekunden?|secondi)$/, 0],
+];
+
+// Words standing for "one" before a unit: "a week ago", "hace un mes", "vor einem Jahr"
+const ONE = /^(a|an|one|un|una|une|uno|ein|eine|einem|einer|een|um|uma)$/;
+
+const YESTERDAY = /\b(yesterday|ayer|hier|gestern|ieri|gisteren|ontem)\b/;
+const TODAY = /\b(today|just now|hoy|aujourd'hui|heute|oggi|vandaag|hoje)\b/;
+
+/**
+ * Turns a review date as a site shows it into an ISO date (YYYY-MM-DD, UTC): ISO timestamps,
+ * "Mar 5, 2024", "5 mars 2024", "3/5/2024" (month first unless the first number is over 12)
+ * and relative dates like "2 weeks ago", which are resolved against the crawl time. Returns
+ * null when the text holds no recognizable date.
+ */
+export function normalizeReviewDate(raw: string, crawledAt: string): string | null {
+    const text = (raw ?? '').normalize('NFKC').trim().toLowerCase();
+    const crawled = Date.parse(crawledAt);
+    if (!text || Number.isNaN(crawled)) return null;
+
+    const date = parseAbsoluteDate(text) ?? parseRelativeDate(text, crawled);
+    if (date === null || Number.isNaN(date)) return null;
+
+    // Dates after the crawl or before review sites existed are parse mistakes
+    if (date > crawled + DAY_MS || date < Date.UTC(1995, 0, 1)) return null;
+
+    return new Date(date).toISOString().slice(0, 10);
+}
+
+function parseAbsoluteDate(text: string): number | null {
+    const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})(t[\d:.]+(z|[+-]\d{2}:?\d{2})?)?/);
+    if (iso) {
+        return iso[4] ? Date.parse(iso[0].toUpperCase()) : Date.UTC(+iso[1], +iso[2] - 1, +iso[3]);
+    }
+
+    const numeric = text.match(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/);
+    if (numeric) {
+        const [first, second, year] = [+numeric[1], +numeric[2], +numeric[3]];
+        // Dotted dates are day first (German style); slashed ones month first unless that is impossible
+        const dayFirst = text.includes('.') || first > 12;
+        return utcDate(year, dayFirst ? second - 1 : first - 1, dayFirst ? first : second);
+    }
+
+    const monthFirst = text.match(/\b(\p{L}{3,})\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})\b/u);
+    if (monthFirst && monthIndex(monthFirst[1]) !== null) {
+        return utcDate(+monthFirst[3], monthIndex(monthFirst[1])!, +monthFirst[2]);
+    }
+
+    const dayFirst = text.match(/\b(\d{1,2})\.?(?:er)? (?:de )?(\p{L}{3,})\.?,? (?:de )?(\d{4})\b/u);
+    if (dayFirst && monthIndex(dayFirst[2]) !== null) {
+        return utcDate(+dayFirst[3], monthIndex(dayFirst[2])!, +dayFirst[1]);
+    }
+
+    // "March 2024": the first of the month
+    const monthYear = text.match(/\b(\p{L}{3,})\.?,? (?:de )?(\d{4})\b/u);
+    if (monthYear && monthIndex(monthYear[1]) !== null) {
+        return utcDate(+monthYear[2], monthIndex(monthYear[1])!, 1);
+    }
+
+    return null;
+}
+
+function parseRelativeDate(text: string, crawled: number): number | null {
+    if (YESTERDAY.test(text)) return crawled - DAY_MS;
+    if (TODAY.test(text)) return crawled;
+
+    const words = text.split(/[\s,]+/);
+    for (let i = 1; i < words.length; i++) {
+        const days = UNITS.find(([pattern]) => pattern.test(words[i]))?.[1];
+        if (days === undefined) continue;
+
+        const amount = /^\d+$/.test(words[i - 1]) ? +words[i - 1] : ONE.test(words[i - 1]) ? 1 : null;
+        if (amount !== null) return crawled - amount * days * DAY_MS;
+    }
+    return null;
+}
+
+function monthIndex(word: string): number | null {
+    return MONTHS.find(([pattern]) => pattern.test(word))?.[1] ?? null;
+}
+
+/**
+ * UTC midnight of a calendar date, or NaN if the day does not exist in that month
+ */
+function utcDate(year: number, month: number, day: number): number {
+    const date = Date.UTC(year, month, day);
+    return new Date(date).getUTCMonth() === month && day >= 1 ? date : NaN;
+}
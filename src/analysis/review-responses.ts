@@ -0,0 +1,41 @@
+import type { Review, ReviewResponseStats, UnansweredReview } from '../types/index.js';
+import { isNegativeReview } from './review-analysis.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How the business answers its reviews: the share with a reply, the median days until the
+ * reply and the negative reviews still waiting for one
+ */
+export function summarizeResponses(reviews: Review[]): ReviewResponseStats {
+    const responded = reviews.filter(review => review.ownerResponse);
+
+    const delays = responded
+        .filter(review => review.publishedDate && review.ownerResponse!.publishedDate)
+        .map(review => (Date.parse(review.ownerResponse!.publishedDate!) - Date.parse(review.publishedDate!)) / DAY_MS)
+        // A reply dated before its review means one of the dates was misread
+        .filter(days => days >= 0);
+
+    const unansweredNegative: UnansweredReview[] = reviews
+        .filter(review => !review.ownerResponse && isNegativeReview(review))
+        .sort((a, b) => (b.publishedDate ?? '').localeCompare(a.publishedDate ?? ''))
+        .map(({ reviewId, reviewerName, rating, publishedDate }) => ({ reviewId, reviewerName, rating, publishedDate }));
+
+    return {
+        responseRate: reviews.length > 0 ? round(responded.length / reviews.length) : 0,
+        respondedReviews: responded.length,
+        medianResponseDays: median(delays),
+        unansweredNegative,
+    };
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
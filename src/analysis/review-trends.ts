@@ -0,0 +1,103 @@
+import type { ReviewTrendBucket, ReviewTrendInterval, ReviewTrendSeries } from '../types/index.js';
+import type { StoredSourceReviews } from '../history/review-history.js';
+import { isNegativeReview } from './review-analysis.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewTrendOptions {
+    interval: ReviewTrendInterval;
+    /** Inclusive ISO dates (YYYY-MM-DD) */
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Buckets each source's stored reviews by the week or month they were published in
+ */
+export function buildReviewTrends(stored: StoredSourceReviews[], options: ReviewTrendOptions): ReviewTrendSeries[] {
+    const { interval, from, to } = options;
+
+    return stored
+        .map(({ source, reviews }) => {
+            const dated = reviews.filter(review =>
+                review.publishedDate &&
+                (!from || review.publishedDate >= from) &&
+                (!to || review.publishedDate <= to));
+
+            const groups = new Map<string, typeof dated>();
+            for (const review of dated) {
+                const start = periodStart(review.publishedDate!, interval);
+                const group = groups.get(start) ?? [];
+                group.push(review);
+                groups.set(start, group);
+            }
+
+            const buckets: ReviewTrendBucket[] = [];
+            const starts = Array.from(groups.keys()).sort();
+            if (starts.length > 0) {
+                for (let start = starts[0]; start <= starts.at(-1)!; start = nextPeriodStart(start, interval)) {
+                    const group = groups.get(start) ?? [];
+                    const rated = group.filter(review => review.rating > 0);
+                    buckets.push({
+                        period: periodLabel(start, interval),
+                        start,
+                        count: group.length,
+                        averageRating: rated.length > 0
+                            ? round(rated.reduce((sum, review) => sum + review.rating, 0) / rated.length)
+                            : null,
+                        negativeShare: group.length > 0
+                            ? round(group.filter(isNegativeReview).length / group.length)
+                            : null,
+                    });
+                }
+            }
+
+            return {
+                businessName: source.businessName,
+                source: source.type,
+                url: source.url,
+                interval,
+                totalReviews: dated.length,
+                undatedReviews: reviews.filter(review => !review.publishedDate).length,
+                buckets,
+            };
+        })
+        .sort((a, b) => a.businessName.localeCompare(b.businessName) || a.source.localeCompare(b.source));
+}
+
+/**
+ * First day of the week (Monday) or month containing an ISO date
+ */
+function periodStart(date: string, interval: ReviewTrendInterval): string {
+    if (interval === 'month') return `${date.slice(0, 7)}-01`;
+
+    const time = Date.parse(date);
+    const weekday = (new Date(time).getUTCDay() + 6) % 7;
+    return new Date(time - weekday * DAY_MS).toISOString().slice(0, 10);
+}
+
+function nextPeriodStart(start: string, interval: ReviewTrendInterval): string {
+    const date = new Date(Date.parse(start));
+    if (interval === 'month') {
+        date.setUTCMonth(date.getUTCMonth() + 1);
+    } else {
+        date.setUTCDate(date.getUTCDate() + 7);
+    }
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * "2024-03" for months; ISO 8601 week ("2024-W09") for weeks, whose year is the year of its Thursday
+ */
+function periodLabel(start: string, interval: ReviewTrendInterval): string {
+    if (interval === 'month') return start.slice(0, 7);
+
+    const thursday = new Date(Date.parse(start) + 3 * DAY_MS);
+    const year = thursday.getUTCFullYear();
+    const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+    return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
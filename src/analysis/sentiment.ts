@@ -0,0 +1,110 @@
+import type { SentimentLabel } from '../types/index.js';
+import type { Token } from './text.js';
+
+// Word valences on AFINN's -5..5 scale, limited to words common in product and service reviews
+const LEXICON = new Map<string, number>(Object.entries({
+    // Positive
+    amazing: 4, awesome: 4, excellent: 3, exceptional: 4, fantastic: 4, outstanding: 4, perfect: 3, superb: 4,
+    brilliant: 4, wonderful: 4, incredible: 4, phenomenal: 4, best: 3, love: 3, loved: 3, loves: 3, lovely: 3,
+    great: 3, good: 2, nice: 2, fine: 1, decent: 1, solid: 2, pleasant: 2, happy: 3, glad: 2, pleased: 3,
+    satisfied: 2, enjoy: 2, enjoyed: 2, recommend: 2, recommended: 2, helpful: 2, friendly: 2, responsive: 2,
+    professional: 2, knowledgeable: 2, patient: 2, polite: 2, quick: 2, quickly: 2, fast: 2, prompt: 2,
+    promptly: 2, easy: 2, easily: 2, simple: 1, intuitive: 2, smooth: 2, seamless: 2, straightforward: 2,
+    reliable: 2, stable: 1, powerful: 2, flexible: 2, useful: 2, valuable: 2, worth: 2, affordable: 2,
+    reasonable: 1, fair: 1, clean: 1, clear: 1, efficient: 2, effective: 2, impressive: 3, impressed: 3,
+    thanks: 2, thank: 2, grateful: 3, appreciate: 2, appreciated: 2, resolved: 2, solved: 2, fixed: 1,
+    works: 1, worked: 1, accurate: 2, convenient: 2, favorite: 2, favourite: 2, top: 2, flawless: 4,
+    beautiful: 3, superior: 2, saved: 2, saves: 2, painless: 2, 'hassle-free': 2, fun: 2, 'five-star': 3,
+    // Negative
+    terrible: -4, horrible: -4, awful: -4, worst: -4, useless: -3, disappointing: -3, disappointed: -3,
+    disappointment: -3, frustrating: -3, frustrated: -3, frustration: -3, annoying: -2, annoyed: -2,
+    bad: -3, poor: -2, poorly: -2, mediocre: -2, lacking: -2, broken: -2, broke: -2, bug: -2, bugs: -2,
+    buggy: -3, glitch: -2, glitches: -2, glitchy: -2, crash: -2, crashes: -2, crashed: -2, crashing: -2,
+    error: -2, errors: -2, fail: -2, fails: -2, failed: -2, failure: -2, slow: -2, sluggish: -2, laggy: -2,
+    lag: -2, unreliable: -3, unstable: -2, confusing: -2, confused: -2, complicated: -2, clunky: -2,
+    difficult: -2, hard: -1, expensive: -2, overpriced: -3, pricey: -1, costly: -2, 'rip-off': -4, ripoff: -4,
+    scam: -4, fraud: -4, waste: -3, wasted: -3, rude: -3, unhelpful: -3, unprofessional: -3, ignored: -2,
+    ignore: -2, unresponsive: -3, incompetent: -3, delay: -2, delayed: -2, delays: -2, late: -2,
+    missing: -2, lost: -2, damaged: -3, defective: -3, wrong: -2, problem: -2, problems: -2, issue: -1,
+    issues: -1, complaint: -2, complain: -2, hate: -3, hated: -3, regret: -3, avoid: -3, unacceptable: -3,
+    ridiculous: -3, nightmare: -4, pathetic: -4, misleading: -3, hidden: -1, cancel: -1, cancelled: -1,
+    canceled: -1, refund: -1, charged: -1, overcharged: -3, worse: -3, outdated: -2,
+    limited: -1, tedious: -2, painful: -2, stuck: -2, downtime: -2, outage: -2, outages: -2, garbage: -4,
+    joke: -2, sucks: -3, meh: -1, lousy: -3, sloppy: -2, shoddy: -3,
+}));
+
+const NEGATORS = new Set([
+    'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor', 'hardly', 'barely', 'without', 'cannot',
+    'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'wouldnt', 'couldnt', 'shouldnt', 'cant',
+    'havent', 'hasnt', 'hadnt', 'aint',
+]);
+
+const INTENSIFIERS = new Map<string, number>([
+    ['very', 1.3], ['really', 1.3], ['extremely', 1.5], ['super', 1.3], ['so', 1.2], ['incredibly', 1.5],
+    ['absolutely', 1.5], ['totally', 1.3], ['highly', 1.3], ['completely', 1.4], ['truly', 1.3], ['most', 1.2],
+    ['slightly', 0.6], ['somewhat', 0.7], ['fairly', 0.8], ['kinda', 0.7], ['bit', 0.7], ['little', 0.7],
+]);
+
+// How far back a negator or intensifier reaches
+const MODIFIER_WINDOW = 3;
+
+// A negated word keeps some of its strength in the other direction ("not good" is milder than "bad")
+const NEGATION_FACTOR = -0.74;
+
+// Normalization constant from VADER: a raw sum of about ±4 maps to ±0.7
+const NORMALIZATION_ALPHA = 15;
+
+// Scores between these count as neutral
+const NEUTRAL_THRESHOLD = 0.05;
+
+export interface SegmentSentiment {
+    /** Sum of the word valences, before normalization */
+    sum: number;
+    /** Sentiment words found */
+    hits: number;
+}
+
+/**
+ * Lexicon score of one run of words: negators within three words flip a word's valence,
+ * intensifiers scale it, and words after "but" count more than the ones before it
+ */
+export function scoreSegment(tokens: Token[]): SegmentSentiment {
+    const butIndex = tokens.findIndex(token => token.word === 'but' || token.word === 'although' || token.word === 'though');
+    let sum = 0;
+    let hits = 0;
+
+    tokens.forEach((token, i) => {
+        const valence = LEXICON.get(token.word) ?? LEXICON.get(token.key);
+        if (valence === undefined) return;
+
+        let value = valence;
+        for (let j = Math.max(0, i - MODIFIER_WINDOW); j < i; j++) {
+            const word = tokens[j].word;
+            if (NEGATORS.has(word)) value *= NEGATION_FACTOR;
+            value *= INTENSIFIERS.get(word) ?? 1;
+        }
+        if (butIndex >= 0) {
+            value *= i > butIndex ? 1.5 : 0.5;
+        }
+
+        sum += value;
+        hits++;
+    });
+
+    return { sum, hits };
+}
+
+/**
+ * Maps a raw valence sum into -1..1
+ */
+export function normalizeSentiment(sum: number): number {
+    if (sum === 0) return 0;
+    const score = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+    return Math.round(Math.max(-1, Math.min(1, score)) * 1000) / 1000;
+}
+
+export function labelSentiment(score: number): SentimentLabel {
+    if (score >= NEUTRAL_THRESHOLD) return 'positive';
+    if (score <= -NEUTRAL_THRESHOLD) return 'negative';
+    return 'neutral';
+}
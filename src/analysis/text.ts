@@ -0,0 +1,59 @@
+// English function words, skipped as terms and at the edges of phrases
+export const STOP_WORDS = new Set([
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+    'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'either', 'else', 'etc', 'even', 'ever', 'every',
+    'few', 'for', 'from', 'further', 'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers',
+    'herself', 'him', 'himself', 'his', 'how', 'however', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just',
+    'let', 'like', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now',
+    'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own',
+    'per', 'same', 'shall', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them',
+    'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+    'upon', 'us', 'use', 'used', 'using', 'very', 'via', 'was', 'we', 'well', 'were', 'what', 'when', 'where', 'whether',
+    'which', 'while', 'who', 'whom', 'whose', 'why', 'will', 'with', 'within', 'without', 'would', 'yet', 'you', 'your',
+    'yours', 'yourself', 'yourselves',
+    // Contractions once apostrophes are stripped
+    'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'wouldnt', 'couldnt', 'shouldnt', 'cant',
+    'im', 'ive', 'youre', 'youve', 'theyre', 'weve', 'thats', 'theres', 'lets',
+]);
+
+export interface Token {
+    /** The word as written, lower-cased */
+    word: string;
+    /** Matching key: the word with simple plural endings folded */
+    key: string;
+}
+
+/**
+ * Splits text into runs of words that phrases may span, breaking at sentence punctuation and line breaks
+ */
+export function tokenizeSegments(text: string): Token[][] {
+    return text
+        .normalize('NFKC')
+        .toLowerCase()
+        .split(/[.!?;:()[\]{}"“”|•·–—\n\r\t]+/)
+        .map(segment => tokenizeWords(segment))
+        .filter(tokens => tokens.length > 0);
+}
+
+export function tokenizeWords(text: string): Token[] {
+    return (text.toLowerCase().replace(/['’]/g, '').match(/[\p{L}\p{N}][\p{L}\p{N}-]*/gu) ?? [])
+        .map(word => word.replace(/-+$/, ''))
+        .filter(word => word.length > 1 && !/^[\d-]+$/.test(word))
+        .map(word => ({ word, key: foldPlural(word) }));
+}
+
+export function isStopWord(token: Token): boolean {
+    return STOP_WORDS.has(token.word);
+}
+
+/**
+ * Cheap plural folding so "tools" matches "tool"; not a stemmer
+ */
+function foldPlural(word: string): string {
+    if (word.length <= 3 || /(ss|us|is|ous)$/.test(word)) return word;
+    if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+    if (/(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s')) return word.slice(0, -1);
+    return word;
+}
@@ -1,13 +1,87 @@
-import { PlaywrightCrawler, KeyValueStore } from 'crawlee';
-import { Page } from 'playwright';
+import { PlaywrightCrawler, KeyValueStore, RequestOptions } from 'crawlee';
+import { Page, Response } from 'playwright';
 import crypto from 'crypto';
-import type { CompetitorCrawlerConfig, CompetitorResult, PageContent, ContentChange } from '../types/index.js';
+import type {
+    CompetitorCrawlerConfig,
+    CompetitorResult,
+    CompetitorCrawlOutput,
+    SiteCrawlSummary,
+    PageContent,
+    PageLink,
+    CrawlerRunOptions,
+    SeoMetadata,
+    RedirectHop,
+    SkippedUrl,
+    LinkGraphSummary,
+} from '../types/index.js';
+import { runWithSignal, openRunQueue } from './crawler-utils.js';
+import { fetchSitemapUrls } from './sitemap.js';
+import { instrumentPage, collectPerformanceMetrics } from './performance.js';
+import { collectPageLinks, checkLinks } from './link-status.js';
+import { captureScreenshots, CapturedScreenshot } from './screenshots.js';
+import { selectWatchRules, extractWatchedValues } from './watch-rules.js';
+import { detectChanges, hasAnyChange } from '../diff/content-diff.js';
+import { diffScreenshots, ScreenshotDiff } from '../diff/visual-diff.js';
+import { getLatestSnapshot, getSnapshotScreenshot, recordSnapshot } from '../history/snapshot-history.js';
+import { saveLinkGraph } from '../history/link-graph-history.js';
+import { buildLinkGraph, summarizeLinkGraph } from '../analysis/link-graph.js';
+import { checkRobots, waitForHostTurn } from '../politeness/politeness.js';
+
+// Site mode limits and defaults
+export const MAX_SITE_PAGES = 1000;
+export const MAX_SITE_DEPTH = 10;
+const DEFAULT_SITE_PAGES = 100;
+const DEFAULT_SITE_DEPTH = 2;
+
+// Links to these files are not pages and are never queued in site mode
+const NON_PAGE_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|woff2?)$/i;
+
+interface SiteState {
+    origin: string;
+    /** Normalized URLs queued for this site, i.e. the pages found this crawl */
+    queued: Set<string>;
+    changed: string[];
+    crawled: number;
+    truncated: boolean;
+    /** Normalized start URLs on this site, where click depth is counted from */
+    startUrls: string[];
+    sitemapPages: Set<string>;
+    /** Link graph: internal anchor links of each crawled page */
+    graphLinks: Map<string, PageLink[]>;
+}
+
+/** Pages found by the last site crawl, kept to report added and removed pages */
+interface SiteInventory {
+    pages: string[];
+    crawledAt: string;
+}
+
+interface PageUserData {
+    site?: string;
+    depth?: number;
+}
 
 /**
  * Runs the competitor crawler and returns results in-memory
  */
-export async function runCompetitorCrawler(config: CompetitorCrawlerConfig): Promise<CompetitorResult[]> {
-    const { urls, includeSnapshots = true } = config;
+export async function runCompetitorCrawler(
+    config: CompetitorCrawlerConfig,
+    options: CrawlerRunOptions = {},
+): Promise<CompetitorCrawlOutput> {
+    const {
+        urls,
+        includeSnapshots = true,
+        mode = 'pages',
+        maxDepth = DEFAULT_SITE_DEPTH,
+        maxPages = DEFAULT_SITE_PAGES,
+        useSitemap = true,
+        snapshotRetention,
+        checkLinks: linkCheck = false,
+        screenshots: captureVisuals = false,
+        linkGraph: buildGraph = false,
+    } = config;
+    const { signal, onProgress } = options;
+    const siteMode = mode === 'site';
 
     // Validate input
     if (!urls || urls.length === 0) {
@@ -16,14 +90,109 @@ export async function runCompetitorCrawler(config: CompetitorCrawlerConfig): Pro
 
     // Collect results in memory
     const results: CompetitorResult[] = [];
+    const sites = new Map<string, SiteState>();
+    const isAllowed = buildUrlFilter(config.includePatterns, config.excludePatterns);
+    const pageLinks = new Map<string, PageLink[]>();
+    const failedPages: string[] = [];
+    const skipped = new Map<string, SkippedUrl>();
+
+    /**
+     * Whether robots.txt lets the page be crawled; pages it rules out are recorded once
+     */
+    const mayCrawl = async (url: string): Promise<boolean> => {
+        if (skipped.has(url)) return false;
+        const skip = await checkRobots(url, config);
+        if (skip) skipped.set(url, skip);
+        return skip === null;
+    };
+
+    // In site mode the total grows as pages are discovered
+    let completed = 0;
+    const countPages = () => Array.from(sites.values()).reduce((sum, site) => sum + site.queued.size, 0);
+    const reportProgress = () => onProgress?.({ completed: ++completed, total: siteMode ? countPages() : requests.length });
+
+    /**
+     * Claims a page for its site; returns null if it was already queued or the site hit maxPages
+     */
+    const claimPage = (site: SiteState, url: string, depth: number): RequestOptions | null => {
+        if (site.queued.has(url)) return null;
+        if (site.queued.size >= maxPages) {
+            site.truncated = true;
+            return null;
+        }
+        site.queued.add(url);
+        return { url, userData: { site: site.origin, depth } satisfies PageUserData };
+    };
 
-    // Open snapshot store for comparison
+    // Site inventories are kept next to the page snapshots
     const snapshotStore = await KeyValueStore.open('competitor-snapshots');
 
+    const requests: RequestOptions[] = siteMode
+        ? await seedSiteRequests()
+        : await seedPageRequests();
+
+    async function seedPageRequests(): Promise<RequestOptions[]> {
+        const seeds: RequestOptions[] = [];
+        for (const url of urls) {
+            if (await mayCrawl(url)) seeds.push({ url });
+        }
+        return seeds;
+    }
+
+    async function seedSiteRequests(): Promise<RequestOptions[]> {
+        const seeds: RequestOptions[] = [];
+
+        // Start URLs are always crawled, whatever the include/exclude patterns
+        for (const url of urls) {
+            const origin = new URL(url).origin;
+            if (!sites.has(origin)) {
+                sites.set(origin, {
+                    origin,
+                    queued: new Set(),
+                    changed: [],
+                    crawled: 0,
+                    truncated: false,
+                    startUrls: [],
+                    sitemapPages: new Set(),
+                    graphLinks: new Map(),
+                });
+            }
+            const pageUrl = normalizePageUrl(url, origin) ?? url;
+            sites.get(origin)!.startUrls.push(pageUrl);
+            if (!(await mayCrawl(pageUrl))) continue;
+            const seed = claimPage(sites.get(origin)!, pageUrl, 0);
+            if (seed) seeds.push(seed);
+        }
+
+        if (!useSitemap) return seeds;
+
+        for (const site of sites.values()) {
+            const sitemapUrls = await fetchSitemapUrls(site.origin, {
+                limit: maxPages - site.queued.size,
+                accept: url => {
+                    const pageUrl = normalizePageUrl(url, site.origin);
+                    return pageUrl !== null && isAllowed(pageUrl) && !site.queued.has(pageUrl);
+                },
+            });
+            console.log(`Found ${sitemapUrls.length} pages in the sitemap of ${site.origin}`);
+
+            for (const url of sitemapUrls) {
+                const pageUrl = normalizePageUrl(url, site.origin)!;
+                site.sitemapPages.add(pageUrl);
+                if (!(await mayCrawl(pageUrl))) continue;
+                const request = claimPage(site, pageUrl, 0);
+                if (request) seeds.push(request);
+            }
+        }
+
+        return seeds;
+    }
+
     const crawler = new PlaywrightCrawler({
+        requestQueue: await openRunQueue(),
         maxConcurrency: 2,
         maxRequestRetries: 3,
-        requestHandlerTimeoutSecs: 60,
+        requestHandlerTimeoutSecs: 90,
 
         launchContext: {
             launchOptions: {
@@ -32,7 +201,14 @@ export async function runCompetitorCrawler(config: CompetitorCrawlerConfig): Pro
             },
         },
 
-        async requestHandler({ request, page, log }) {
+        preNavigationHooks: [
+            async ({ page, request }) => {
+                await waitForHostTurn(request.url, config);
+                await instrumentPage(page);
+            },
+        ],
+
+        async requestHandler({ request, response, page, log, addRequests }) {
             const url = request.url;
             log.info(`Crawling competitor: ${url}`);
 
@@ -41,19 +217,48 @@ export async function runCompetitorCrawler(config: CompetitorCrawlerConfig): Pro
             await new Promise(resolve => setTimeout(resolve, 2000));
 
             // Extract page content
-            const currentSnapshot = await extractPageContent(page, url);
+            const currentSnapshot = await extractPageContent(page, url, response ?? null);
+
+            const watchRules = selectWatchRules(config.watch, url);
+            if (watchRules.length > 0) {
+                currentSnapshot.watched = await extractWatchedValues(page, watchRules);
+            }
+
+            const foundLinks = linkCheck || (siteMode && buildGraph) ? await collectPageLinks(page) : [];
+            if (linkCheck) {
+                pageLinks.set(url, foundLinks);
+            }
+
+            // Screenshots resize the page, so they come after everything else read from it
+            const screenshots = captureVisuals ? await captureScreenshots(page) : [];
+            if (screenshots.length > 0) {
+                currentSnapshot.screenshots = screenshots.map(screenshot => screenshot.info);
+            }
 
             // Get previous snapshot
-            const snapshotKey = createSnapshotKey(url);
-            const previousSnapshot = await snapshotStore.getValue<PageContent>(snapshotKey);
+            const previousSnapshot = await getLatestSnapshot(url);
+            const visualDiffs = previousSnapshot ? await diffWithLatestScreenshots(url, screenshots) : [];
 
             // Detect changes
-            const changes = detectChanges(previousSnapshot, currentSnapshot);
+            const changes = detectChanges(previousSnapshot, currentSnapshot, visualDiffs.map(diff => diff.change));
+            const hasChanges = hasAnyChange(changes);
 
-            // Store current snapshot for future comparison
-            if (includeSnapshots) {
-                await snapshotStore.setValue(snapshotKey, currentSnapshot);
-            }
+            // Store current snapshot as a new version for future comparison
+            const stored = includeSnapshots
+                ? await recordSnapshot(
+                    currentSnapshot,
+                    changes,
+                    hasChanges,
+                    snapshotRetention,
+                    screenshots.map(({ info, image }) => ({
+                        viewport: info.viewport,
+                        image,
+                        diffImage: visualDiffs.find(diff => diff.change.viewport === info.viewport)?.diffImage,
+                    })),
+                )
+                : null;
+            const { site: origin, depth = 0 } = request.userData as PageUserData;
+            const site = origin ? sites.get(origin) : undefined;
 
             // Push to in-memory array (NOT Dataset)
             results.push({
@@ -61,26 +266,184 @@ export async function runCompetitorCrawler(config: CompetitorCrawlerConfig): Pro
                 previousSnapshot: previousSnapshot || null,
                 currentSnapshot,
                 changes,
-                hasChanges: Object.values(changes).some(v =>
-                    typeof v === 'boolean' ? v : v !== 0
-                ),
+                hasChanges,
+                ...(stored ? { snapshotVersion: stored.version } : {}),
+                ...(site ? { site: site.origin, depth } : {}),
             });
 
-            log.info(`Completed: ${url} - Changes detected: ${JSON.stringify(changes)}`);
+            if (site) {
+                site.crawled++;
+                if (hasChanges) site.changed.push(url);
+
+                if (buildGraph) {
+                    site.graphLinks.set(url, toGraphLinks(foundLinks, site.origin, currentSnapshot.seo));
+                }
+
+                // Follow internal links until maxDepth
+                if (depth < maxDepth) {
+                    const hrefs = await page.$$eval('a[href]', anchors =>
+                        anchors.map(a => (a as HTMLAnchorElement).href),
+                    );
+                    const candidates = hrefs
+                        .map(link => normalizePageUrl(link, site.origin))
+                        .filter((link): link is string => link !== null && isAllowed(link) && !site.queued.has(link));
+
+                    const next: RequestOptions[] = [];
+                    for (const link of new Set(candidates)) {
+                        if (!(await mayCrawl(link))) continue;
+                        const req = claimPage(site, link, depth + 1);
+                        if (req) next.push(req);
+                    }
+
+                    if (next.length > 0) {
+                        await addRequests(next);
+                        log.info(`Queued ${next.length} new pages from ${url} (depth ${depth + 1})`);
+                    }
+                }
+            }
+
+            log.info(`Completed: ${url} - ${changes.summary}`);
+            reportProgress();
         },
 
         failedRequestHandler({ request, log }) {
             log.error(`Failed to crawl: ${request.url}`);
+            failedPages.push(request.url);
+            reportProgress();
         },
     });
 
-    const requests = urls.map(url => ({ url }));
-    await crawler.run(requests);
+    await runWithSignal(crawler, requests, signal);
+
+    const { respectRobotsTxt, robotsUserAgent, hostDelayMs } = config;
+    const politeness = { respectRobotsTxt, robotsUserAgent, hostDelayMs };
+    const links = linkCheck
+        ? await checkLinks(pageLinks, { ...(linkCheck === true ? {} : linkCheck), ...politeness }, failedPages, signal)
+        : undefined;
+    const skippedUrls = skipped.size > 0 ? { skipped: Array.from(skipped.values()) } : {};
+
+    if (!siteMode) {
+        return { results, ...(links ? { links } : {}), ...skippedUrls };
+    }
 
-    return results;
+    const summaries: SiteCrawlSummary[] = [];
+    for (const site of sites.values()) {
+        const cancelled = signal?.aborted === true;
+        const summary = await summarizeSite(snapshotStore, site, includeSnapshots, cancelled);
+        if (buildGraph) {
+            summary.linkGraph = await buildSiteLinkGraph(site, summary.truncated, summary.crawledAt, includeSnapshots && !cancelled);
+        }
+        summaries.push(summary);
+    }
+
+    return { results, sites: summaries, ...(links ? { links } : {}), ...skippedUrls };
 }
 
-async function extractPageContent(page: Page, url: string): Promise<PageContent> {
+/**
+ * Pixel diffs of new screenshots against the latest stored version's, for the viewports it has
+ */
+async function diffWithLatestScreenshots(url: string, screenshots: CapturedScreenshot[]): Promise<ScreenshotDiff[]> {
+    const diffs: ScreenshotDiff[] = [];
+
+    for (const { info, image } of screenshots) {
+        const previous = await getSnapshotScreenshot(url, info.viewport);
+        if (previous) diffs.push(diffScreenshots(info.viewport, previous.image, image));
+    }
+
+    return diffs;
+}
+
+/**
+ * Compares the pages found this crawl with the previous site crawl and stores the new inventory
+ */
+async function summarizeSite(
+    store: KeyValueStore,
+    site: SiteState,
+    saveInventory: boolean,
+    cancelled: boolean,
+): Promise<SiteCrawlSummary> {
+    const key = createSiteKey(site.origin);
+    const previous = await store.getValue<SiteInventory>(key);
+    const pages = Array.from(site.queued);
+    const previousPages = new Set(previous?.pages ?? []);
+    const truncated = site.truncated || cancelled;
+    const crawledAt = new Date().toISOString();
+
+    // A cancelled crawl saw only part of the site, so it must not become the baseline
+    if (saveInventory && !cancelled) {
+        await store.setValue(key, { pages, crawledAt } satisfies SiteInventory);
+    }
+
+    return {
+        site: site.origin,
+        pagesCrawled: site.crawled,
+        pagesAdded: previous ? pages.filter(page => !previousPages.has(page)) : [],
+        pagesRemoved: previous && !truncated ? previous.pages.filter(page => !site.queued.has(page)) : [],
+        pagesChanged: site.changed,
+        truncated,
+        previousCrawledAt: previous?.crawledAt ?? null,
+        crawledAt,
+    };
+}
+
+/**
+ * Builds the site's link graph from the links recorded during the crawl, storing it for export
+ */
+async function buildSiteLinkGraph(site: SiteState, truncated: boolean, crawledAt: string, save: boolean): Promise<LinkGraphSummary> {
+    const graph = buildLinkGraph({
+        site: site.origin,
+        startUrls: site.startUrls,
+        pageLinks: site.graphLinks,
+        sitemapPages: site.sitemapPages,
+        truncated,
+        crawledAt,
+    });
+    if (save) await saveLinkGraph(graph);
+    return summarizeLinkGraph(graph);
+}
+
+/**
+ * Anchors pointing at pages on the site, as page URLs. A page-level nofollow (robots meta or
+ * X-Robots-Tag) makes every link nofollow.
+ */
+function toGraphLinks(links: PageLink[], origin: string, seo: SeoMetadata): PageLink[] {
+    const pageNofollow = /\b(nofollow|none)\b/i.test(`${seo.robotsMeta} ${seo.xRobotsTag}`);
+    return links.flatMap(link => {
+        const url = link.source === 'anchor' ? normalizePageUrl(link.url, origin) : null;
+        return url ? [{ ...link, url, nofollow: pageNofollow || link.nofollow === true }] : [];
+    });
+}
+
+/**
+ * Returns the URL without its fragment if it is a page on the given origin, otherwise null
+ */
+function normalizePageUrl(href: string, origin: string): string | null {
+    try {
+        const url = new URL(href);
+        if (url.origin !== origin || NON_PAGE_EXTENSIONS.test(url.pathname)) return null;
+        url.hash = '';
+        return url.href;
+    } catch {
+        return null;
+    }
+}
+
+function buildUrlFilter(includePatterns: string[] = [], excludePatterns: string[] = []): (url: string) => boolean {
+    const include = includePatterns.map(pattern => new RegExp(pattern));
+    const exclude = excludePatterns.map(pattern => new RegExp(pattern));
+
+    return url =>
+        (include.length === 0 || include.some(re => re.test(url))) &&
+        !exclude.some(re => re.test(url));
+}
+
+/**
+ * Snapshot of a loaded page: headings, text, link counts, SEO metadata and performance metrics
+ */
+export async function extractPageContent(page: Page, url: string, response: Response | null): Promise<PageContent> {
+    // Waits for the load event, so the content below sees the fully loaded page
+    const performanceMetrics = await collectPerformanceMetrics(page);
+
     const content = await page.evaluate((url) => {
         const getText = (selector: string): string[] => {
             return Array.from(document.querySelectorAll(selector))
@@ -119,53 +482,104 @@ async function extractPageContent(page: Page, url: string): Promise<PageContent>
             images: document.querySelectorAll('img').length,
             internalLinks,
             externalLinks,
+            seo: extractSeoMetadata(),
             crawledAt: new Date().toISOString(),
         };
+
+        function extractSeoMetadata() {
+            const attr = (selector: string, name: string): string =>
+                document.querySelector(selector)?.getAttribute(name)?.trim() || '';
+
+            const metaGroup = (attribute: 'property' | 'name', prefix: string): Record<string, string> => {
+                const values: Record<string, string> = {};
+                document.querySelectorAll(`meta[${attribute}^="${prefix}"]`).forEach(meta => {
+                    const key = meta.getAttribute(attribute);
+                    const value = meta.getAttribute('content');
+                    if (key && value) values[key] = value.trim();
+                });
+                return values;
+            };
+
+            // Collect @type values, including nested @graph entries
+            const structuredDataTypes = new Set<string>();
+            const collectTypes = (node: unknown): void => {
+                if (Array.isArray(node)) {
+                    node.forEach(collectTypes);
+                } else if (node && typeof node === 'object') {
+                    const record = node as Record<string, unknown>;
+                    const type = record['@type'];
+                    (Array.isArray(type) ? type : [type])
+                        .filter((t): t is string => typeof t === 'string')
+                        .forEach(t => structuredDataTypes.add(t));
+                    if (record['@graph']) collectTypes(record['@graph']);
+                }
+            };
+            document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+                try {
+                    collectTypes(JSON.parse(script.textContent || ''));
+                } catch { }
+            });
+
+            return {
+                title: document.title.trim(),
+                metaDescription: attr('meta[name="description" i]', 'content'),
+                canonical: (document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null)?.href || '',
+                robotsMeta: attr('meta[name="robots" i]', 'content'),
+                hreflang: Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="alternate"][hreflang]'))
+                    .map(link => ({ hreflang: link.getAttribute('hreflang') || '', href: link.href })),
+                openGraph: metaGroup('property', 'og:'),
+                twitter: metaGroup('name', 'twitter:'),
+                structuredDataTypes: Array.from(structuredDataTypes).sort(),
+                imagesWithoutAlt: Array.from(document.querySelectorAll('img'))
+                    .filter(img => !img.getAttribute('alt')?.trim()).length,
+                language: document.documentElement.lang || '',
+            };
+        }
     }, url);
 
+    const { statusCode, finalUrl, redirectChain } = await resolveRedirects(response, page.url());
+
     // Compute content hash server-side
     return {
         ...content,
+        seo: {
+            ...content.seo,
+            xRobotsTag: response ? (await response.allHeaders())['x-robots-tag'] ?? '' : '',
+            statusCode,
+            finalUrl,
+            redirectChain,
+        } satisfies SeoMetadata,
+        performance: performanceMetrics,
         contentHash: crypto.createHash('md5')
             .update(JSON.stringify([content.h1, content.h2, content.h3, content.paragraphs]))
             .digest('hex'),
     };
 }
 
-function createSnapshotKey(url: string): string {
-    return crypto.createHash('md5').update(url).digest('hex');
-}
-
-function detectChanges(
-    previous: PageContent | null | undefined,
-    current: PageContent
-): ContentChange {
-    if (!previous) {
-        return {
-            headingsChanged: false,
-            contentChanged: false,
-            wordCountDiff: 0,
-            structureChanged: false,
-        };
+/**
+ * Walk back through the navigation's redirects to build the chain that led to the final response
+ */
+async function resolveRedirects(
+    response: Response | null,
+    pageUrl: string,
+): Promise<{ statusCode: number; finalUrl: string; redirectChain: RedirectHop[] }> {
+    if (!response) {
+        return { statusCode: 0, finalUrl: pageUrl, redirectChain: [] };
     }
 
-    const headingsChanged =
-        JSON.stringify([previous.h1, previous.h2, previous.h3]) !==
-        JSON.stringify([current.h1, current.h2, current.h3]);
-
-    const contentChanged = previous.contentHash !== current.contentHash;
-    const wordCountDiff = current.wordCount - previous.wordCount;
+    const redirectChain: RedirectHop[] = [];
+    let previous = response.request().redirectedFrom();
+    while (previous) {
+        const hopResponse = await previous.response();
+        redirectChain.unshift({ url: previous.url(), statusCode: hopResponse?.status() ?? 0 });
+        previous = previous.redirectedFrom();
+    }
 
-    const structureChanged =
-        previous.images !== current.images ||
-        Math.abs(previous.internalLinks - current.internalLinks) > 5;
+    return { statusCode: response.status(), finalUrl: response.url(), redirectChain };
+}
 
-    return {
-        headingsChanged,
-        contentChanged,
-        wordCountDiff,
-        structureChanged,
-    };
+function createSiteKey(origin: string): string {
+    return `site-${crypto.createHash('md5').update(origin).digest('hex')}`;
 }
 
 export default runCompetitorCrawler;
\ No newline at end of file
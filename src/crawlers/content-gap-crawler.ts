@@ -0,0 +1,146 @@
+import { PlaywrightCrawler } from 'crawlee';
+import type { Page } from 'playwright';
+import type { ContentGapConfig, ContentGapReport, CrawlerRunOptions } from '../types/index.js';
+import { runWithSignal, openRunQueue } from './crawler-utils.js';
+import { checkRobots, filterByRobots, waitForHostTurn } from '../politeness/politeness.js';
+import { extractPageContent } from './competitor-crawler.js';
+import { analyzeContentGap, PageText } from '../analysis/content-gap.js';
+
+// Content gap limits and defaults
+export const MAX_GAP_COMPETITORS = 20;
+export const MAX_GAP_NGRAM = 3;
+export const MAX_GAP_TERMS = 500;
+const DEFAULT_GAP_TERMS = 50;
+
+/**
+ * Crawls our page and the competitor pages, then compares their terms and heading topics
+ */
+export async function runContentGapCrawler(
+    config: ContentGapConfig,
+    options: CrawlerRunOptions = {},
+): Promise<ContentGapReport> {
+    const {
+        url,
+        competitorUrls,
+        maxNgram = MAX_GAP_NGRAM,
+        maxTerms = DEFAULT_GAP_TERMS,
+        minCompetitors = Math.ceil(competitorUrls.length / 2),
+    } = config;
+    const { signal, onProgress } = options;
+
+    // Validate input
+    if (!url || !competitorUrls || competitorUrls.length === 0) {
+        throw new Error('A URL and at least one competitor URL are required');
+    }
+
+    const ownSkip = await checkRobots(url, config);
+    if (ownSkip) {
+        throw new Error(`${ownSkip.detail}; set respectRobotsTxt to false to analyse a page you own`);
+    }
+    const indexed = competitorUrls.map((pageUrl, i) => ({
+        url: pageUrl,
+        uniqueKey: pageRequestKey(pageUrl, i + 1),
+        userData: { index: i + 1 },
+    }));
+    const { allowed, skipped } = await filterByRobots(indexed, request => request.url, config);
+
+    // Keyed by position in [url, ...competitorUrls]; request URLs may come back normalized
+    const pages = new Map<number, PageText>();
+    const failedUrls: string[] = [];
+
+    let completed = 0;
+    const total = allowed.length + 1;
+    const reportProgress = () => onProgress?.({ completed: ++completed, total });
+
+    const crawler = new PlaywrightCrawler({
+        requestQueue: await openRunQueue(),
+        maxConcurrency: 2,
+        maxRequestRetries: 3,
+        requestHandlerTimeoutSecs: 90,
+
+        preNavigationHooks: [
+            async ({ request }) => {
+                await waitForHostTurn(request.url, config);
+            },
+        ],
+
+        launchContext: {
+            launchOptions: {
+                headless: true,
+                args: ['--no-sandbox', '--disable-dev-shm-usage'],
+            },
+        },
+
+        async requestHandler({ request, response, page, log }) {
+            log.info(`Analysing content: ${request.url}`);
+
+            const content = await extractPageContent(page, request.url, response ?? null);
+            const text = await extractMainText(page);
+
+            pages.set(request.userData.index as number, {
+                url: request.url,
+                text,
+                headings: { h1: content.h1, h2: content.h2, h3: content.h3 },
+            });
+
+            log.info(`Completed: ${request.url} (${content.wordCount} words on the page)`);
+            reportProgress();
+        },
+
+        failedRequestHandler({ request, log }) {
+            log.error(`Failed to crawl: ${request.url}`);
+            failedUrls.push(request.url);
+            reportProgress();
+        },
+    });
+
+    await runWithSignal(crawler, [{ url, uniqueKey: pageRequestKey(url, 0), userData: { index: 0 } }, ...allowed], signal);
+
+    const ours = pages.get(0);
+    if (!ours) {
+        throw new Error(`Could not load ${url}`);
+    }
+    const competitors = competitorUrls
+        .map((_, i) => pages.get(i + 1))
+        .filter((page): page is PageText => page !== undefined);
+    if (competitors.length === 0) {
+        throw new Error(skipped.length === competitorUrls.length
+            ? 'robots.txt disallows all of the competitor pages'
+            : 'None of the competitor pages could be loaded');
+    }
+
+    return {
+        ...analyzeContentGap(ours, competitors, {
+            maxNgram,
+            maxTerms,
+            minCompetitors: Math.min(minCompetitors, competitors.length),
+        }),
+        failedUrls,
+        ...(skipped.length > 0 ? { skipped } : {}),
+    };
+}
+
+/**
+ * Visible text of the main content. Navigation, header, footer, sidebars and forms are removed
+ * from the page first, so the page should not be used afterwards.
+ */
+async function extractMainText(page: Page): Promise<string> {
+    return page.evaluate(() => {
+        document
+            .querySelectorAll('nav, header, footer, aside, form, script, style, noscript, template, [role="navigation"], [role="banner"], [role="contentinfo"]')
+            .forEach(el => el.remove());
+
+        const root = document.querySelector('main') ?? document.querySelector('article') ?? document.body;
+        return (root as HTMLElement | null)?.innerText ?? '';
+    });
+}
+
+/**
+ * Queue key per position in [url, ...competitorUrls], so every page is crawled even when two
+ * URLs normalize to the same one
+ */
+function pageRequestKey(url: string, index: number): string {
+    return `${url}#page-${index}`;
+}
+
+export default runContentGapCrawler;
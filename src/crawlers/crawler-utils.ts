@@ -0,0 +1,43 @@
+import { RequestQueue } from 'crawlee';
+import type { BasicCrawler, CrawlingContext, RequestOptions } from 'crawlee';
+import crypto from 'crypto';
+
+const RUN_QUEUE_PREFIX = 'run-';
+
+/**
+ * Opens a request queue private to one crawler run. Crawlers created later in the same
+ * process would otherwise share the default queue and skip URLs an earlier run handled.
+ */
+export async function openRunQueue(): Promise<RequestQueue> {
+    return RequestQueue.open(`${RUN_QUEUE_PREFIX}${crypto.randomUUID()}`);
+}
+
+/**
+ * Runs a crawler, stopping it gracefully when the abort signal fires.
+ * A queue from openRunQueue is dropped once the run ends.
+ */
+export async function runWithSignal<Context extends CrawlingContext>(
+    crawler: BasicCrawler<Context>,
+    requests: RequestOptions[],
+    signal?: AbortSignal,
+): Promise<void> {
+    const queue = crawler.requestQueue;
+    const dropRunQueue = async () => {
+        if (queue?.name?.startsWith(RUN_QUEUE_PREFIX)) await queue.drop();
+    };
+
+    if (signal?.aborted) {
+        await dropRunQueue();
+        return;
+    }
+
+    const stop = () => crawler.stop('Crawl cancelled');
+    signal?.addEventListener('abort', stop, { once: true });
+
+    try {
+        await crawler.run(requests);
+    } finally {
+        signal?.removeEventListener('abort', stop);
+        await dropRunQueue();
+    }
+}
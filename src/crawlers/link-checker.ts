@@ -0,0 +1,75 @@
+import { PlaywrightCrawler } from 'crawlee';
+import type { LinkCheckerConfig, LinkCheckReport, PageLink, CrawlerRunOptions } from '../types/index.js';
+import { runWithSignal, openRunQueue } from './crawler-utils.js';
+import { collectPageLinks, checkLinks } from './link-status.js';
+import { filterByRobots, waitForHostTurn } from '../politeness/politeness.js';
+
+/**
+ * Loads each page, collects its links and checks their status codes and redirects.
+ * robots.txt decides which pages are loaded, not which links are checked.
+ */
+export async function runLinkChecker(
+    config: LinkCheckerConfig,
+    options: CrawlerRunOptions = {},
+): Promise<LinkCheckReport> {
+    const { urls, ...linkOptions } = config;
+    const { signal, onProgress } = options;
+
+    // Validate input
+    if (!urls || urls.length === 0) {
+        throw new Error('At least one URL is required');
+    }
+
+    const { allowed, skipped } = await filterByRobots(urls, url => url, config);
+    const pageLinks = new Map<string, PageLink[]>();
+    const failedPages: string[] = [];
+
+    let completed = 0;
+    const reportProgress = () => onProgress?.({ completed: ++completed, total: allowed.length });
+
+    const crawler = new PlaywrightCrawler({
+        requestQueue: await openRunQueue(),
+        maxConcurrency: 2,
+        maxRequestRetries: 2,
+        requestHandlerTimeoutSecs: 60,
+
+        preNavigationHooks: [
+            async ({ request }) => {
+                await waitForHostTurn(request.url, config);
+            },
+        ],
+
+        launchContext: {
+            launchOptions: {
+                headless: true,
+                args: ['--no-sandbox', '--disable-dev-shm-usage'],
+            },
+        },
+
+        async requestHandler({ request, page, log }) {
+            log.info(`Collecting links: ${request.url}`);
+
+            // Let client-rendered links appear
+            await page.waitForLoadState('load', { timeout: 10000 }).catch(() => undefined);
+
+            const links = await collectPageLinks(page);
+            pageLinks.set(request.url, links);
+
+            log.info(`Found ${links.length} links on ${request.url}`);
+            reportProgress();
+        },
+
+        failedRequestHandler({ request, log }) {
+            log.error(`Failed to load: ${request.url}`);
+            failedPages.push(request.url);
+            reportProgress();
+        },
+    });
+
+    await runWithSignal(crawler, allowed.map(url => ({ url })), signal);
+
+    const report = await checkLinks(pageLinks, linkOptions, failedPages, signal);
+    return { ...report, ...(skipped.length > 0 ? { skipped } : {}) };
+}
+
+export default runLinkChecker;
@@ -0,0 +1,304 @@
+import type { Page } from 'playwright';
+import type {
+    LinkCheckOptions,
+    LinkCheckReport,
+    LinkCheckResult,
+    LinkIssue,
+    LinkOccurrence,
+    PageLink,
+    PolitenessOptions,
+    RedirectHop,
+} from '../types/index.js';
+import { waitForHostTurn } from '../politeness/politeness.js';
+
+// Link check limits and defaults
+export const MAX_LINK_CONCURRENCY = 50;
+export const MAX_LINK_TIMEOUT_MS = 60000;
+export const MAX_REDIRECT_HOPS = 10;
+const DEFAULT_LINK_CONCURRENCY = 10;
+const DEFAULT_LINK_TIMEOUT_MS = 10000;
+const DEFAULT_REDIRECT_HOPS = 2;
+
+// Redirects are followed this far at most, whatever maxRedirectHops is
+const REDIRECT_FOLLOW_LIMIT = 20;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; SEOCrawlerLinkChecker/1.0)';
+
+interface LinkStatus {
+    statusCode: number | null;
+    finalUrl: string;
+    redirectChain: RedirectHop[];
+    method: 'HEAD' | 'GET';
+    loop: boolean;
+    error?: string;
+}
+
+/**
+ * Every http(s) link on the page: anchors, canonical, hreflang alternates and image sources
+ */
+export async function collectPageLinks(page: Page): Promise<PageLink[]> {
+    const links = await page.evaluate(() => {
+        const clean = (text: string | null | undefined): string =>
+            (text || '').replace(/\s+/g, ' ').trim().slice(0, 200);
+
+        const found: Array<{ url: string; source: string; text: string; nofollow?: boolean }> = [];
+
+        document.querySelectorAll<HTMLAnchorElement>('a[href]').forEach(a => {
+            const imageAlt = a.querySelector('img')?.getAttribute('alt');
+            found.push({
+                url: a.href,
+                source: 'anchor',
+                text: clean(a.textContent) || clean(a.getAttribute('aria-label')) || clean(imageAlt),
+                nofollow: /(^|\s)nofollow(\s|$)/i.test(a.rel),
+            });
+        });
+        document.querySelectorAll<HTMLLinkElement>('link[rel="canonical"][href]').forEach(link => {
+            found.push({ url: link.href, source: 'canonical', text: '' });
+        });
+        document.querySelectorAll<HTMLLinkElement>('link[rel="alternate"][hreflang][href]').forEach(link => {
+            found.push({ url: link.href, source: 'hreflang', text: clean(link.getAttribute('hreflang')) });
+        });
+        document.querySelectorAll<HTMLImageElement>('img[src]').forEach(img => {
+            found.push({ url: img.currentSrc || img.src, source: 'image', text: clean(img.getAttribute('alt')) });
+        });
+
+        return found;
+    });
+
+    const seen = new Set<string>();
+    const result: PageLink[] = [];
+
+    for (const link of links) {
+        const url = normalizeLinkUrl(link.url);
+        if (!url) continue;
+
+        const key = `${link.source} ${url} ${link.text} ${link.nofollow ?? ''}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        result.push({
+            url,
+            source: link.source as PageLink['source'],
+            text: link.text,
+            ...(link.nofollow !== undefined ? { nofollow: link.nofollow } : {}),
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Resolves the status of every distinct link found on the given pages, a bounded number at a time.
+ * Links left unchecked when the signal fires are dropped from the report.
+ */
+export async function checkLinks(
+    pageLinks: Map<string, PageLink[]>,
+    options: LinkCheckOptions & PolitenessOptions = {},
+    failedPages: string[] = [],
+    signal?: AbortSignal,
+): Promise<LinkCheckReport> {
+    const {
+        concurrency = DEFAULT_LINK_CONCURRENCY,
+        timeoutMs = DEFAULT_LINK_TIMEOUT_MS,
+        maxRedirectHops = DEFAULT_REDIRECT_HOPS,
+        checkExternal = true,
+        ...politeness
+    } = options;
+
+    // Group occurrences by link so each URL is requested once
+    const occurrences = new Map<string, LinkOccurrence[]>();
+    for (const [pageUrl, links] of pageLinks) {
+        const pageProtocol = new URL(pageUrl).protocol;
+        for (const link of links) {
+            if (!checkExternal && !isSameHost(link.url, pageUrl)) continue;
+
+            const list = occurrences.get(link.url) ?? [];
+            list.push({
+                foundOn: pageUrl,
+                source: link.source,
+                text: link.text,
+                mixedContent: pageProtocol === 'https:' && link.url.startsWith('http:'),
+            });
+            occurrences.set(link.url, list);
+        }
+    }
+
+    const results: LinkCheckResult[] = [];
+    const pending = Array.from(occurrences.keys());
+
+    const worker = async () => {
+        while (pending.length > 0 && !signal?.aborted) {
+            const url = pending.shift()!;
+            const status = await resolveLinkStatus(url, timeoutMs, politeness);
+            const linkOccurrences = occurrences.get(url)!;
+            results.push({
+                url,
+                internal: isSameHost(url, linkOccurrences[0].foundOn),
+                statusCode: status.statusCode,
+                finalUrl: status.finalUrl,
+                redirectChain: status.redirectChain,
+                method: status.method,
+                issues: findIssues(status, linkOccurrences, maxRedirectHops),
+                ...(status.error ? { error: status.error } : {}),
+                occurrences: linkOccurrences,
+            });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+    // Links with issues first
+    results.sort((a, b) => Number(b.issues.length > 0) - Number(a.issues.length > 0) || a.url.localeCompare(b.url));
+
+    const issues = Object.fromEntries(
+        (['client-error', 'server-error', 'unreachable', 'redirect-loop', 'long-redirect-chain', 'mixed-content'] as LinkIssue[])
+            .map(issue => [issue, results.filter(result => result.issues.includes(issue)).length]),
+    ) as Record<LinkIssue, number>;
+
+    return {
+        results,
+        summary: {
+            pagesChecked: pageLinks.size,
+            failedPages,
+            linksChecked: results.length,
+            brokenLinks: results.filter(result =>
+                result.issues.some(issue => issue === 'client-error' || issue === 'server-error' || issue === 'unreachable'),
+            ).length,
+            redirectedLinks: results.filter(result => result.redirectChain.length > 0).length,
+            issues,
+        },
+    };
+}
+
+function findIssues(status: LinkStatus, occurrences: LinkOccurrence[], maxRedirectHops: number): LinkIssue[] {
+    const issues: LinkIssue[] = [];
+    const { statusCode } = status;
+
+    if (status.loop) {
+        issues.push('redirect-loop');
+    } else if (statusCode === null) {
+        issues.push('unreachable');
+    } else if (statusCode >= 500) {
+        issues.push('server-error');
+    } else if (statusCode >= 400) {
+        issues.push('client-error');
+    }
+    if (status.redirectChain.length > maxRedirectHops) issues.push('long-redirect-chain');
+    if (occurrences.some(occurrence => occurrence.mixedContent)) issues.push('mixed-content');
+
+    return issues;
+}
+
+/**
+ * Follows the link's redirects hop by hop so the whole chain is recorded
+ */
+async function resolveLinkStatus(url: string, timeoutMs: number, politeness: PolitenessOptions): Promise<LinkStatus> {
+    const redirectChain: RedirectHop[] = [];
+    const visited = new Set<string>();
+    let current = url;
+    let method: LinkStatus['method'] = 'HEAD';
+
+    while (true) {
+        if (visited.has(current)) {
+            return { statusCode: redirectChain.at(-1)!.statusCode, finalUrl: current, redirectChain, method, loop: true };
+        }
+        visited.add(current);
+
+        let response: { statusCode: number; location: string | null; method: LinkStatus['method'] };
+        try {
+            response = await requestLink(current, timeoutMs, politeness);
+        } catch (e) {
+            return { statusCode: null, finalUrl: current, redirectChain, method, loop: false, error: describeFetchError(e) };
+        }
+        if (response.method === 'GET') method = 'GET';
+
+        const { statusCode, location } = response;
+        if (statusCode < 300 || statusCode >= 400 || !location) {
+            return { statusCode, finalUrl: current, redirectChain, method, loop: false };
+        }
+
+        redirectChain.push({ url: current, statusCode });
+        if (redirectChain.length >= REDIRECT_FOLLOW_LIMIT) {
+            return {
+                statusCode,
+                finalUrl: current,
+                redirectChain,
+                method,
+                loop: false,
+                error: `Stopped after ${REDIRECT_FOLLOW_LIMIT} redirects`,
+            };
+        }
+
+        try {
+            current = new URL(location, current).href;
+        } catch {
+            return { statusCode, finalUrl: current, redirectChain, method, loop: false, error: `Invalid redirect location: ${location}` };
+        }
+    }
+}
+
+/**
+ * One request without following redirects. Falls back to GET when HEAD fails or returns an
+ * error status, since many servers mishandle HEAD.
+ */
+async function requestLink(
+    url: string,
+    timeoutMs: number,
+    politeness: PolitenessOptions,
+): Promise<{ statusCode: number; location: string | null; method: 'HEAD' | 'GET' }> {
+    try {
+        const head = await sendRequest(url, 'HEAD', timeoutMs, politeness);
+        if (head.status < 400) {
+            return { statusCode: head.status, location: head.headers.get('location'), method: 'HEAD' };
+        }
+    } catch { }
+
+    const get = await sendRequest(url, 'GET', timeoutMs, politeness);
+    // Only the status is needed, so the body is never downloaded
+    await get.body?.cancel().catch(() => undefined);
+    return { statusCode: get.status, location: get.headers.get('location'), method: 'GET' };
+}
+
+/**
+ * Links are not filtered by robots.txt, but each request still waits its turn for the host
+ */
+async function sendRequest(
+    url: string,
+    method: 'HEAD' | 'GET',
+    timeoutMs: number,
+    politeness: PolitenessOptions,
+): Promise<globalThis.Response> {
+    await waitForHostTurn(url, politeness);
+    return fetch(url, {
+        method,
+        redirect: 'manual',
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(timeoutMs),
+    });
+}
+
+/**
+ * fetch reports DNS and connection failures as a bare "fetch failed"; the cause says which
+ */
+function describeFetchError(error: unknown): string {
+    if (!(error instanceof Error)) return String(error);
+    const cause = error.cause as { code?: string; message?: string } | undefined;
+    return cause?.code ?? cause?.message ?? error.message;
+}
+
+/**
+ * Returns the URL without its fragment if it is an http(s) link, otherwise null
+ */
+function normalizeLinkUrl(href: string): string | null {
+    try {
+        const url = new URL(href);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        url.hash = '';
+        return url.href;
+    } catch {
+        return null;
+    }
+}
+
+function isSameHost(url: string, pageUrl: string): boolean {
+    return new URL(url).hostname === new URL(pageUrl).hostname;
+}
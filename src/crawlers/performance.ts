@@ -0,0 +1,189 @@
+import type { Page, Request } from 'playwright';
+import type { PerformanceMetrics, ResourceKind, ResourceWeight, ThirdPartyDomain } from '../types/index.js';
+
+// How long to wait for the load event before capturing, so late resources are counted
+const LOAD_TIMEOUT_MS = 10000;
+
+// Second-level labels shared under country-code TLDs, e.g. co.uk or com.au
+const SHARED_SECOND_LEVEL_LABELS = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu']);
+
+const RESOURCE_KINDS: Record<string, ResourceKind> = {
+    document: 'document',
+    script: 'js',
+    stylesheet: 'css',
+    image: 'image',
+    font: 'font',
+};
+
+interface RequestRecord {
+    url: string;
+    kind: ResourceKind;
+    transferSize: number;
+}
+
+// Timings the init script gathers in the page, read back by collectPerformanceMetrics
+interface PagePerformanceRecord {
+    lcp: number | null;
+    cls: number;
+    /** [startTime, duration] of each long task */
+    longTasks: Array<[number, number]>;
+}
+
+// Not in TypeScript's DOM typings yet
+interface LayoutShiftEntry extends PerformanceEntry {
+    value: number;
+    hadRecentInput: boolean;
+}
+
+declare global {
+    interface Window {
+        __seoPerf?: PagePerformanceRecord;
+    }
+}
+
+// Finished requests of each instrumented page
+const pageRequests = new WeakMap<Page, Array<Promise<RequestRecord | null>>>();
+
+/**
+ * Starts recording paint, layout-shift and long-task entries and finished requests.
+ * Must run before navigation (from a pre-navigation hook).
+ */
+export async function instrumentPage(page: Page): Promise<void> {
+    const requests: Array<Promise<RequestRecord | null>> = [];
+    pageRequests.set(page, requests);
+    page.on('requestfinished', request => requests.push(recordRequest(request)));
+
+    await page.addInitScript(() => {
+        const perf: PagePerformanceRecord = { lcp: null, cls: 0, longTasks: [] };
+        window.__seoPerf = perf;
+
+        try {
+            new PerformanceObserver(list => {
+                const entries = list.getEntries();
+                perf.lcp = entries[entries.length - 1].startTime;
+            }).observe({ type: 'largest-contentful-paint', buffered: true });
+
+            // CLS is the largest session window: shifts less than 1s apart, at most 5s long
+            let sessionValue = 0;
+            let sessionStart = 0;
+            let lastShift = 0;
+            new PerformanceObserver(list => {
+                for (const entry of list.getEntries() as LayoutShiftEntry[]) {
+                    if (entry.hadRecentInput) continue;
+                    if (sessionValue > 0 && entry.startTime - lastShift < 1000 && entry.startTime - sessionStart < 5000) {
+                        sessionValue += entry.value;
+                    } else {
+                        sessionValue = entry.value;
+                        sessionStart = entry.startTime;
+                    }
+                    lastShift = entry.startTime;
+                    perf.cls = Math.max(perf.cls, sessionValue);
+                }
+            }).observe({ type: 'layout-shift', buffered: true });
+
+            new PerformanceObserver(list => {
+                for (const entry of list.getEntries()) {
+                    perf.longTasks.push([entry.startTime, entry.duration]);
+                }
+            }).observe({ type: 'longtask', buffered: true });
+        } catch {
+            // Browsers other than Chromium reject the largest-contentful-paint, layout-shift and
+            // longtask entry types; the metrics keep their defaults there
+        }
+    });
+}
+
+/**
+ * Lab metrics for an instrumented page, read once it has loaded (or the load wait timed out)
+ */
+export async function collectPerformanceMetrics(page: Page): Promise<PerformanceMetrics> {
+    await page.waitForLoadState('load', { timeout: LOAD_TIMEOUT_MS }).catch(() => undefined);
+
+    const timings = await page.evaluate(() => {
+        const perf = window.__seoPerf ?? { lcp: null, cls: 0, longTasks: [] };
+        const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+        const fcpEntry = performance.getEntriesByName('first-contentful-paint')[0];
+        const fcp = fcpEntry ? fcpEntry.startTime : null;
+
+        const totalBlockingTime = fcp === null ? 0 : perf.longTasks
+            .filter(([start, duration]) => start + duration > fcp)
+            .reduce((sum, [, duration]) => sum + Math.max(duration - 50, 0), 0);
+
+        return {
+            ttfb: navigation ? navigation.responseStart : null,
+            fcp,
+            lcp: perf.lcp,
+            cls: perf.cls,
+            totalBlockingTime,
+            domElements: document.getElementsByTagName('*').length,
+        };
+    });
+
+    const records = (await Promise.all(pageRequests.get(page) ?? []))
+        .filter((record): record is RequestRecord => record !== null);
+
+    const byType = Object.fromEntries(
+        (['document', 'js', 'css', 'image', 'font', 'other'] as ResourceKind[])
+            .map(kind => [kind, { requests: 0, transferSize: 0 }]),
+    ) as Record<ResourceKind, ResourceWeight>;
+
+    const siteDomain = getSiteDomain(new URL(page.url()).hostname);
+    const thirdParties = new Map<string, ThirdPartyDomain>();
+
+    for (const record of records) {
+        byType[record.kind].requests++;
+        byType[record.kind].transferSize += record.transferSize;
+
+        const domain = getSiteDomain(new URL(record.url).hostname);
+        if (domain === siteDomain) continue;
+        const thirdParty = thirdParties.get(domain) ?? { domain, requests: 0, transferSize: 0 };
+        thirdParty.requests++;
+        thirdParty.transferSize += record.transferSize;
+        thirdParties.set(domain, thirdParty);
+    }
+
+    return {
+        ttfb: roundMs(timings.ttfb),
+        fcp: roundMs(timings.fcp),
+        lcp: roundMs(timings.lcp),
+        cls: Math.round(timings.cls * 1000) / 1000,
+        totalBlockingTime: Math.round(timings.totalBlockingTime),
+        domElements: timings.domElements,
+        requestCount: records.length,
+        transferSize: records.reduce((sum, record) => sum + record.transferSize, 0),
+        byType,
+        thirdPartyDomains: Array.from(thirdParties.values()).sort((a, b) => b.transferSize - a.transferSize),
+    };
+}
+
+async function recordRequest(request: Request): Promise<RequestRecord | null> {
+    if (!/^https?:/.test(request.url())) return null;
+
+    try {
+        const sizes = await request.sizes();
+        return {
+            url: request.url(),
+            kind: RESOURCE_KINDS[request.resourceType()] ?? 'other',
+            transferSize: sizes.responseBodySize + sizes.responseHeadersSize,
+        };
+    } catch {
+        // The page was closed before sizes could be read
+        return null;
+    }
+}
+
+/**
+ * Registrable domain by heuristic (no public suffix list): the last two labels,
+ * or three under shared second-level labels such as co.uk
+ */
+function getSiteDomain(hostname: string): string {
+    const labels = hostname.replace(/\.$/, '').split('.');
+    const keep = labels.length >= 3 && labels.at(-1)!.length === 2 && SHARED_SECOND_LEVEL_LABELS.has(labels.at(-2)!)
+        ? 3
+        : 2;
+    return labels.slice(-keep).join('.');
+}
+
+function roundMs(value: number | null): number | null {
+    return value === null ? null : Math.round(value);
+}
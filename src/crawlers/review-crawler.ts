@@ -1,25 +1,100 @@
 import { PlaywrightCrawler } from 'crawlee';
-import { Page } from 'playwright';
-import type { ReviewCrawlerConfig, ReviewResult, Review, ReviewSource } from '../types/index.js';
+import crypto from 'crypto';
+import type {
+    ReviewCrawlerConfig,
+    ReviewCrawlOutput,
+    ReviewResult,
+    Review,
+    ReviewSource,
+    CrawlerRunOptions,
+} from '../types/index.js';
+import { runWithSignal, openRunQueue } from './crawler-utils.js';
+import { filterByRobots, waitForHostTurn } from '../politeness/politeness.js';
+import { getSeenReviewIds, recordReviews } from '../history/review-history.js';
+import { getReviewSourceAdapter, extractSchemaOrgReviews, type ReviewPage } from './review-sources/index.js';
+import { analyzeReviews } from '../analysis/review-analysis.js';
+import { normalizeReviewDate } from '../analysis/review-dates.js';
+import { detectLanguage } from '../analysis/language.js';
+import { summarizeResponses } from '../analysis/review-responses.js';
+
+export const MAX_REVIEWS_PER_SOURCE = 2000;
+
+// Stops runaway pagination when a platform keeps serving the same page
+const MAX_REVIEW_PAGES = 200;
+
+interface SourceState {
+    source: ReviewSource;
+    reviews: Review[];
+    seen: Set<string>;
+    /** Incremental mode: IDs returned by earlier crawls */
+    knownIds: Set<string>;
+    pagesCrawled: number;
+    reachedPreviousCrawl: boolean;
+    platformTotalReviews: number | null;
+    platformAverageRating: number | null;
+    /** False once a page had to fall back to schema.org markup, which carries no replies */
+    capturesOwnerResponses: boolean;
+}
+
+interface ReviewUserData {
+    index: number;
+    page: number;
+}
 
 /**
- * Runs the review crawler and returns results in-memory
+ * Runs the review crawler and returns results in-memory. Each source type's adapter (see
+ * ./review-sources) finds its pages and reads their reviews; pages the adapter finds nothing on
+ * fall back to schema.org markup.
  */
-export async function runReviewCrawler(config: ReviewCrawlerConfig): Promise<ReviewResult[]> {
-    const { sources, maxReviewsPerSource = 50 } = config;
+export async function runReviewCrawler(
+    config: ReviewCrawlerConfig,
+    options: CrawlerRunOptions = {},
+): Promise<ReviewCrawlOutput> {
+    const { sources, maxReviewsPerSource = 50, incremental = false, analyze = true } = config;
+    const { signal, onProgress } = options;
 
     // Validate input
     if (!sources || sources.length === 0) {
         throw new Error('At least one review source is required');
     }
 
-    // Collect results in memory
-    const results: ReviewResult[] = [];
+    // Checked against the URL the adapter fetches, which may be on another host (the App Store feed)
+    const { allowed, skipped } = await filterByRobots(
+        sources,
+        source => getReviewSourceAdapter(source.type).getStartUrl(source.url),
+        config,
+    );
+
+    // Collect results in memory, per source across its pages
+    const states: SourceState[] = [];
+    for (const source of allowed) {
+        states.push({
+            source,
+            reviews: [],
+            seen: new Set(),
+            knownIds: incremental ? await getSeenReviewIds(source) : new Set(),
+            pagesCrawled: 0,
+            reachedPreviousCrawl: false,
+            platformTotalReviews: null,
+            platformAverageRating: null,
+            capturesOwnerResponses: getReviewSourceAdapter(source.type).capturesOwnerResponses,
+        });
+    }
+
+    let completed = 0;
+    const reportProgress = () => onProgress?.({ completed: ++completed, total: allowed.length });
 
     const crawler = new PlaywrightCrawler({
+        requestQueue: await openRunQueue(),
         maxConcurrency: 1,
         maxRequestRetries: 3,
-        requestHandlerTimeoutSecs: 90,
+        requestHandlerTimeoutSecs: 120,
+
+        preNavigationHooks: [
+            async ({ request }) => {
+                await waitForHostTurn(request.url, config);
+            },
+        ],
 
         launchContext: {
             launchOptions: {
@@ -28,200 +103,162 @@ export async function runReviewCrawler(config: ReviewCrawlerConfig): Promise<Rev
             },
         },
 
-        async requestHandler({ request, page, log }) {
-            const source = request.userData as ReviewSource;
-            log.info(`Crawling ${source.type} reviews for: ${source.businessName}`);
+        async requestHandler({ request, page, log, crawler }) {
+            const { index, page: pageNumber } = request.userData as ReviewUserData;
+            const state = states[index];
+            const { source } = state;
+            log.info(`Crawling ${source.type} reviews for: ${source.businessName} (page ${pageNumber})`);
 
             await page.waitForLoadState('networkidle');
             await new Promise(resolve => setTimeout(resolve, 3000));
 
-            let reviews: Review[] = [];
+            const adapter = getReviewSourceAdapter(source.type);
+            let reviewPage: ReviewPage = await adapter.extractReviews(page, {
+                maxReviews: maxReviewsPerSource - state.reviews.length,
+                knownIds: state.knownIds,
+                newestFirst: incremental,
+            });
 
-            switch (source.type) {
-                case 'trustpilot':
-                    reviews = await extractTrustpilotReviews(page, source.businessName, maxReviewsPerSource);
-                    break;
-                case 'g2':
-                    reviews = await extractG2Reviews(page, source.businessName, maxReviewsPerSource);
-                    break;
-                case 'google':
-                    reviews = await extractGoogleReviews(page, source.businessName, maxReviewsPerSource);
+            // Platform markup changes often; schema.org markup tends to outlive it
+            if (reviewPage.reviews.length === 0 && source.type !== 'schema-org') {
+                const fallback = await extractSchemaOrgReviews(page);
+                if (fallback.reviews.length > 0) {
+                    log.info(`No ${source.type} reviews found with platform selectors, using schema.org markup`);
+                    state.capturesOwnerResponses = false;
+                    reviewPage = {
+                        reviews: fallback.reviews,
+                        platformTotalReviews: reviewPage.platformTotalReviews ?? fallback.platformTotalReviews,
+                        platformAverageRating: reviewPage.platformAverageRating ?? fallback.platformAverageRating,
+                    };
+                }
+            }
+
+            state.pagesCrawled++;
+            state.platformTotalReviews ??= reviewPage.platformTotalReviews;
+            state.platformAverageRating ??= reviewPage.platformAverageRating;
+
+            let added = 0;
+            for (const { reviewId, ownerResponse, reviewer, ...fields } of reviewPage.reviews) {
+                if (state.reviews.length >= maxReviewsPerSource) break;
+
+                const crawledAt = new Date().toISOString();
+                const review: Review = {
+                    reviewId: '',
+                    source: source.type,
+                    businessName: source.businessName,
+                    ...fields,
+                    publishedDate: normalizeReviewDate(fields.reviewDate, crawledAt),
+                    language: detectLanguage(fields.reviewText),
+                    ownerResponse: ownerResponse?.text
+                        ? {
+                            text: ownerResponse.text,
+                            responseDate: ownerResponse.date,
+                            publishedDate: normalizeReviewDate(ownerResponse.date, crawledAt),
+                        }
+                        : null,
+                    ...(reviewer && Object.keys(reviewer).length > 0 ? { reviewer } : {}),
+                    crawledAt,
+                };
+                review.reviewId = reviewId || hashReview(review);
+                if (state.seen.has(review.reviewId)) continue;
+                if (state.knownIds.has(review.reviewId)) {
+                    state.reachedPreviousCrawl = true;
                     break;
+                }
+
+                state.seen.add(review.reviewId);
+                state.reviews.push(review);
+                added++;
             }
 
-            // Calculate stats
-            const totalReviews = reviews.length;
-            const averageRating = totalReviews > 0
-                ? reviews.reduce((sum, r) => sum + r.rating, 0) / totalReviews
-                : 0;
-
-            // Push to in-memory array (NOT Dataset)
-            results.push({
-                source: source.type,
-                businessName: source.businessName,
-                reviews,
-                averageRating: Math.round(averageRating * 100) / 100,
-                totalReviews,
-            });
+            log.info(`Extracted ${added} new reviews from ${source.type} page ${pageNumber}`);
+
+            // Keep paginating until enough reviews are collected, a page adds nothing or known reviews are reached
+            if (
+                added > 0 &&
+                !state.reachedPreviousCrawl &&
+                state.reviews.length < maxReviewsPerSource &&
+                pageNumber < MAX_REVIEW_PAGES
+            ) {
+                const nextUrl = await adapter.getNextPageUrl(page, source.url, pageNumber);
+                if (nextUrl) {
+                    await crawler.addRequests([{
+                        url: nextUrl,
+                        uniqueKey: sourceRequestKey(nextUrl, index),
+                        userData: { index, page: pageNumber + 1 } satisfies ReviewUserData,
+                    }]);
+                    return;
+                }
+            }
 
-            log.info(`Extracted ${reviews.length} reviews from ${source.type}`);
+            reportProgress();
         },
 
         failedRequestHandler({ request, log }) {
+            // A failed later page keeps the reviews earlier pages returned
             log.error(`Failed: ${request.url}`);
+            reportProgress();
         },
     });
 
-    const requests = sources.map(source => ({
-        url: source.url,
-        userData: source,
-    }));
-
-    await crawler.run(requests);
-
-    return results;
-}
-
-async function extractTrustpilotReviews(
-    page: Page,
-    businessName: string,
-    maxReviews: number
-): Promise<Review[]> {
-    // Scroll to load more reviews
-    await autoScroll(page);
-
-    return page.evaluate(({ businessName, maxReviews }) => {
-        const reviews: Review[] = [];
-        const reviewCards = document.querySelectorAll('[data-service-review-card-paper]');
-
-        reviewCards.forEach((card, index) => {
-            if (index >= maxReviews) return;
-
-            const reviewerEl = card.querySelector('[data-consumer-name-typography]');
-            const ratingEl = card.querySelector('[data-service-review-rating]');
-            const textEl = card.querySelector('[data-service-review-text-typography]');
-            const dateEl = card.querySelector('time');
-
-            if (reviewerEl && textEl) {
-                const ratingAttr = ratingEl?.getAttribute('data-service-review-rating');
-                reviews.push({
-                    source: 'trustpilot',
-                    businessName,
-                    reviewerName: reviewerEl.textContent?.trim() || 'Anonymous',
-                    rating: ratingAttr ? parseInt(ratingAttr) : 0,
-                    reviewText: textEl.textContent?.trim() || '',
-                    reviewDate: dateEl?.getAttribute('datetime') || '',
-                    crawledAt: new Date().toISOString(),
-                });
-            }
-        });
+    const requests = allowed.map((source, index) => {
+        const url = getReviewSourceAdapter(source.type).getStartUrl(source.url);
+        return {
+            url,
+            uniqueKey: sourceRequestKey(url, index),
+            userData: { index, page: 1 } satisfies ReviewUserData,
+        };
+    });
 
-        return reviews;
-    }, { businessName, maxReviews });
-}
+    await runWithSignal(crawler, requests, signal);
 
-async function extractG2Reviews(
-    page: Page,
-    businessName: string,
-    maxReviews: number
-): Promise<Review[]> {
-    await autoScroll(page);
-
-    return page.evaluate(({ businessName, maxReviews }) => {
-        const reviews: Review[] = [];
-        const reviewCards = document.querySelectorAll('[itemprop="review"]');
-
-        reviewCards.forEach((card, index) => {
-            if (index >= maxReviews) return;
-
-            const reviewerEl = card.querySelector('[itemprop="author"]');
-            const ratingEl = card.querySelector('[itemprop="ratingValue"]');
-            const textEl = card.querySelector('[itemprop="reviewBody"]');
-            const dateEl = card.querySelector('[itemprop="datePublished"]');
-
-            if (textEl) {
-                reviews.push({
-                    source: 'g2',
-                    businessName,
-                    reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
-                    rating: ratingEl ? parseFloat(ratingEl.getAttribute('content') || '0') : 0,
-                    reviewText: textEl.textContent?.trim() || '',
-                    reviewDate: dateEl?.getAttribute('content') || '',
-                    crawledAt: new Date().toISOString(),
-                });
-            }
+    const crawledAt = new Date().toISOString();
+    const results: ReviewResult[] = [];
+    for (const state of states) {
+        if (state.pagesCrawled === 0) continue;
+
+        const { reviews } = state;
+        const analyzed = analyze ? analyzeReviews(reviews) : null;
+        await recordReviews(state.source, analyzed?.reviews ?? reviews, crawledAt);
+
+        // Calculate stats
+        const totalReviews = reviews.length;
+        const averageRating = totalReviews > 0
+            ? reviews.reduce((sum, r) => sum + r.rating, 0) / totalReviews
+            : 0;
+
+        results.push({
+            source: state.source.type,
+            businessName: state.source.businessName,
+            reviews: analyzed?.reviews ?? reviews,
+            averageRating: Math.round(averageRating * 100) / 100,
+            totalReviews,
+            platformTotalReviews: state.platformTotalReviews,
+            platformAverageRating: state.platformAverageRating,
+            pagesCrawled: state.pagesCrawled,
+            responses: state.capturesOwnerResponses ? summarizeResponses(reviews) : null,
+            ...(incremental ? { reachedPreviousCrawl: state.reachedPreviousCrawl } : {}),
+            ...(analyzed ? { analysis: analyzed.analysis } : {}),
         });
-
-        return reviews;
-    }, { businessName, maxReviews });
-}
-
-async function extractGoogleReviews(
-    page: Page,
-    businessName: string,
-    maxReviews: number
-): Promise<Review[]> {
-    // Click to expand reviews if needed
-    const moreButton = await page.$('[aria-label="More reviews"]');
-    if (moreButton) {
-        await moreButton.click();
-        await new Promise(resolve => setTimeout(resolve, 2000));
     }
 
-    await autoScroll(page);
-
-    return page.evaluate(({ businessName, maxReviews }) => {
-        const reviews: Review[] = [];
-        const reviewCards = document.querySelectorAll('[data-review-id]');
-
-        reviewCards.forEach((card, index) => {
-            if (index >= maxReviews) return;
-
-            const reviewerEl = card.querySelector('[class*="reviewer"]') ||
-                card.querySelector('[aria-label*="Photo of"]');
-            const ratingEl = card.querySelector('[aria-label*="stars"]');
-            const textEl = card.querySelector('[class*="review-text"], .review-full-text');
-            const dateEl = card.querySelector('[class*="review-date"]');
-
-            if (textEl) {
-                const ratingMatch = ratingEl?.getAttribute('aria-label')?.match(/(\d)/);
-                reviews.push({
-                    source: 'google',
-                    businessName,
-                    reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
-                    rating: ratingMatch ? parseInt(ratingMatch[1]) : 0,
-                    reviewText: textEl.textContent?.trim() || '',
-                    reviewDate: dateEl?.textContent?.trim() || '',
-                    crawledAt: new Date().toISOString(),
-                });
-            }
-        });
+    return { results, ...(skipped.length > 0 ? { skipped } : {}) };
+}
 
-        return reviews;
-    }, { businessName, maxReviews });
+/**
+ * Queue key per source, so two sources with the same URL are not deduplicated into one request
+ */
+function sourceRequestKey(url: string, index: number): string {
+    return `${url}#source-${index}`;
 }
 
-async function autoScroll(page: Page): Promise<void> {
-    await page.evaluate(async () => {
-        await new Promise<void>((resolve) => {
-            let totalHeight = 0;
-            const distance = 300;
-            const maxScrolls = 10;
-            let scrollCount = 0;
-
-            const timer = setInterval(() => {
-                const scrollHeight = document.body.scrollHeight;
-                window.scrollBy(0, distance);
-                totalHeight += distance;
-                scrollCount++;
-
-                if (totalHeight >= scrollHeight || scrollCount >= maxScrolls) {
-                    clearInterval(timer);
-                    resolve();
-                }
-            }, 200);
-        });
-    });
+/**
+ * Fallback ID for reviews without a platform ID. The date is left out, since some platforms
+ * show relative dates ("2 weeks ago") that change between crawls.
+ */
+function hashReview(review: Review): string {
+    const key = [review.source, review.businessName, review.reviewerName, review.rating, review.reviewText].join('|');
+    return crypto.createHash('sha1').update(key).digest('hex').slice(0, 16);
 }
 
-export default runReviewCrawler;
\ No newline at end of file
+export default runReviewCrawler;
@@ -0,0 +1,74 @@
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+
+// Apple's review feed serves at most 10 pages of 50 reviews
+const MAX_FEED_PAGES = 10;
+
+interface FeedLabel {
+    label?: string;
+}
+
+interface FeedEntry {
+    id?: FeedLabel;
+    author?: { name?: FeedLabel };
+    'im:rating'?: FeedLabel;
+    title?: FeedLabel;
+    content?: FeedLabel;
+    updated?: FeedLabel;
+}
+
+/**
+ * Apple App Store reviews, read from the public customer reviews feed of the app the
+ * apps.apple.com URL points to. The feed carries no overall rating or count.
+ */
+export const appStoreAdapter: ReviewSourceAdapter = {
+    type: 'app-store',
+    capturesOwnerResponses: false,
+
+    matchesUrl(url: URL): boolean {
+        return /^(apps|itunes)\.apple\.com$/.test(url.hostname) && /\/id\d+/.test(url.pathname);
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return getFeedUrl(sourceUrl, 1);
+    },
+
+    async getNextPageUrl(_page, sourceUrl, pageNumber) {
+        return pageNumber < MAX_FEED_PAGES ? getFeedUrl(sourceUrl, pageNumber + 1) : null;
+    },
+
+    async extractReviews(page) {
+        const body = await page.evaluate(() => document.body.innerText);
+
+        let entries: FeedEntry[] = [];
+        try {
+            const entry = JSON.parse(body)?.feed?.entry;
+            entries = Array.isArray(entry) ? entry : entry ? [entry] : [];
+        } catch {
+            throw new Error('App Store review feed did not return JSON');
+        }
+
+        // The first entry of older feeds describes the app itself and has no rating
+        const reviews: ExtractedReview[] = entries
+            .filter(entry => entry['im:rating']?.label)
+            .map(entry => {
+                const title = entry.title?.label?.trim();
+                const content = entry.content?.label?.trim() ?? '';
+                return {
+                    reviewId: entry.id?.label,
+                    reviewerName: entry.author?.name?.label?.trim() || 'Anonymous',
+                    rating: parseInt(entry['im:rating']!.label!),
+                    reviewText: title ? `${title}\n${content}` : content,
+                    reviewDate: entry.updated?.label ?? '',
+                };
+            });
+
+        return { reviews, platformTotalReviews: null, platformAverageRating: null };
+    },
+};
+
+function getFeedUrl(sourceUrl: string, pageNumber: number): string {
+    const url = new URL(sourceUrl);
+    const appId = url.pathname.match(/\/id(\d+)/)?.[1];
+    const country = url.pathname.match(/^\/([a-z]{2})\//)?.[1] ?? 'us';
+    return `https://itunes.apple.com/${country}/rss/customerreviews/page=${pageNumber}/id=${appId}/sortby=mostrecent/json`;
+}
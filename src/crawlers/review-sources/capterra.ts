@@ -0,0 +1,70 @@
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+import { autoScroll, readAggregateRating, withSearchParams } from './page-helpers.js';
+
+export const capterraAdapter: ReviewSourceAdapter = {
+    type: 'capterra',
+    capturesOwnerResponses: true,
+
+    matchesUrl(url: URL): boolean {
+        return /(^|\.)capterra\.[a-z.]+$/.test(url.hostname) && url.pathname.includes('/reviews');
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return getPageUrl(sourceUrl, 1);
+    },
+
+    async getNextPageUrl(_page, sourceUrl, pageNumber) {
+        return getPageUrl(sourceUrl, pageNumber + 1);
+    },
+
+    async extractReviews(page) {
+        await autoScroll(page);
+
+        const reviews = await page.evaluate(() => {
+            const reviews: ExtractedReview[] = [];
+            const reviewCards = document.querySelectorAll('[data-test-id="review-card"], [data-testid="review-card"]');
+
+            reviewCards.forEach((card) => {
+                const reviewerEl = card.querySelector('[data-testid="reviewer-full-name"], [data-test-id="reviewer-name"]');
+                const ratingEl = card.querySelector('[data-testid="rating"], [aria-label*="out of 5"]');
+                const titleEl = card.querySelector('h3');
+                const textEls = card.querySelectorAll('[data-testid="review-content"] p, [data-test-id="review-content"] p');
+                const dateEl = card.querySelector('[data-testid="review-written-on"], time');
+                const replyEl = card.querySelector('[data-testid="vendor-response"], [data-test-id="vendor-response"]');
+                const replyDateEl = replyEl?.querySelector('[data-testid="vendor-response-date"], time');
+                const replyTextEls = replyEl?.querySelectorAll('p') ?? [];
+
+                const reviewText = Array.from(textEls).map(el => el.textContent?.trim()).filter(Boolean).join('\n');
+                if (reviewText) {
+                    const ratingMatch = (ratingEl?.getAttribute('aria-label') ?? ratingEl?.textContent ?? '').match(/\d+(\.\d+)?/);
+                    reviews.push({
+                        reviewId: card.id.match(/\d+/)?.[0] ?? card.getAttribute('data-review-id') ?? undefined,
+                        reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
+                        rating: ratingMatch ? parseFloat(ratingMatch[0]) : 0,
+                        reviewText: titleEl?.textContent?.trim() ? `${titleEl.textContent.trim()}\n${reviewText}` : reviewText,
+                        reviewDate: dateEl?.getAttribute('datetime') || dateEl?.textContent?.trim() || '',
+                        ...(replyEl ? {
+                            ownerResponse: {
+                                text: Array.from(replyTextEls).map(el => el.textContent?.trim()).filter(Boolean).join('\n'),
+                                date: replyDateEl?.getAttribute('datetime') || replyDateEl?.textContent?.trim() || '',
+                            },
+                        } : {}),
+                        // Capterra marks verified reviewers but not unverified ones, so a missing badge says nothing
+                        ...(/verified (reviewer|linkedin user)/i.test(card.textContent ?? '')
+                            ? { reviewer: { verified: true } }
+                            : {}),
+                    });
+                }
+            });
+
+            return reviews;
+        });
+
+        const aggregate = await readAggregateRating(page);
+        return { reviews, ...aggregate };
+    },
+};
+
+function getPageUrl(sourceUrl: string, pageNumber: number): string {
+    return withSearchParams(sourceUrl, { sort: 'most_recent', page: pageNumber > 1 ? String(pageNumber) : null });
+}
@@ -0,0 +1,76 @@
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+import { autoScroll, readAggregateRating, withSearchParams } from './page-helpers.js';
+
+export const g2Adapter: ReviewSourceAdapter = {
+    type: 'g2',
+    capturesOwnerResponses: true,
+
+    matchesUrl(url: URL): boolean {
+        return /(^|\.)g2\.com$/.test(url.hostname) && url.pathname.includes('/reviews');
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return getPageUrl(sourceUrl, 1);
+    },
+
+    async getNextPageUrl(_page, sourceUrl, pageNumber) {
+        return getPageUrl(sourceUrl, pageNumber + 1);
+    },
+
+    async extractReviews(page) {
+        await autoScroll(page);
+
+        const reviews = await page.evaluate(() => {
+            const reviews: ExtractedReview[] = [];
+            const reviewCards = document.querySelectorAll('[itemprop="review"]');
+
+            reviewCards.forEach((card) => {
+                const reviewerEl = card.querySelector('[itemprop="author"]');
+                const ratingEl = card.querySelector('[itemprop="ratingValue"]');
+                const textEl = card.querySelector('[itemprop="reviewBody"]');
+                const dateEl = card.querySelector('[itemprop="datePublished"]');
+                const idSource = card.closest('[id^="survey-response-"]')?.id ??
+                    card.querySelector('a[href*="/survey_responses/"]')?.getAttribute('href') ?? '';
+
+                // Vendor replies sit under a "Response from ..." heading
+                const replyHeading = Array.from(card.querySelectorAll('div, h4, h5, span'))
+                    .find(el => el.children.length === 0 && /^response from\b/i.test(el.textContent?.trim() ?? ''));
+                const replyEl = replyHeading?.parentElement;
+                const replyDate = replyEl?.querySelector('time')?.getAttribute('datetime') ??
+                    replyEl?.textContent?.match(/\b[A-Z][a-z]{2} \d{1,2}, \d{4}\b/)?.[0] ?? '';
+
+                if (textEl) {
+                    reviews.push({
+                        reviewId: idSource.match(/(?:survey-response-|survey_responses\/)([\w-]+)/)?.[1],
+                        reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
+                        rating: ratingEl ? parseFloat(ratingEl.getAttribute('content') || '0') : 0,
+                        reviewText: textEl.textContent?.trim() || '',
+                        reviewDate: dateEl?.getAttribute('content') || '',
+                        ...(replyEl ? {
+                            ownerResponse: {
+                                text: (replyEl.textContent ?? '')
+                                    .replace(replyHeading!.textContent ?? '', '')
+                                    .replace(replyDate, '')
+                                    .trim(),
+                                date: replyDate,
+                            },
+                        } : {}),
+                        // G2 marks validated reviewers but not the rest, so a missing badge says nothing
+                        ...(/validated reviewer|verified current user/i.test(card.textContent ?? '')
+                            ? { reviewer: { verified: true } }
+                            : {}),
+                    });
+                }
+            });
+
+            return reviews;
+        });
+
+        const aggregate = await readAggregateRating(page);
+        return { reviews, ...aggregate };
+    },
+};
+
+function getPageUrl(sourceUrl: string, pageNumber: number): string {
+    return withSearchParams(sourceUrl, { order: 'most_recent', page: pageNumber > 1 ? String(pageNumber) : null });
+}
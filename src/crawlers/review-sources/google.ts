@@ -0,0 +1,98 @@
+import type { Page } from 'playwright';
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+import { loadMoreReviews, readAggregateRating } from './page-helpers.js';
+
+export const googleAdapter: ReviewSourceAdapter = {
+    type: 'google',
+    capturesOwnerResponses: true,
+
+    matchesUrl(url: URL): boolean {
+        return /(^|\.)google\.[a-z.]+$/.test(url.hostname) && /^\/maps\b/.test(url.pathname);
+    },
+
+    // Google loads more reviews as its list scrolls, all on one page
+    getStartUrl(sourceUrl: string): string {
+        return sourceUrl;
+    },
+
+    async getNextPageUrl() {
+        return null;
+    },
+
+    async extractReviews(page, context) {
+        // Click to expand reviews if needed
+        const moreButton = await page.$('[aria-label="More reviews"]');
+        if (moreButton) {
+            await moreButton.click();
+            await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+
+        // Incremental crawls need the newest reviews first
+        if (context.newestFirst) {
+            await sortByNewest(page);
+        }
+
+        await loadMoreReviews(page, { cardSelector: '[data-review-id]', idAttribute: 'data-review-id' }, context);
+
+        const reviews = await page.evaluate(() => {
+            const reviews: ExtractedReview[] = [];
+            const reviewCards = document.querySelectorAll('[data-review-id]');
+
+            reviewCards.forEach((card) => {
+                const reviewerEl = card.querySelector('[class*="reviewer"]') ||
+                    card.querySelector('[aria-label*="Photo of"]');
+                const ratingEl = card.querySelector('[aria-label*="stars"]');
+                const textEl = card.querySelector('[class*="review-text"], .review-full-text');
+                const dateEl = card.querySelector('[class*="review-date"]');
+
+                // "Response from the owner", then the reply's relative date, then its text
+                const replyHeading = Array.from(card.querySelectorAll('span, div'))
+                    .find(el => el.children.length === 0 && /^response from the owner\b/i.test(el.textContent?.trim() ?? ''));
+                const replyEl = replyHeading?.parentElement?.parentElement;
+                const replyDate = replyHeading?.nextElementSibling?.textContent?.trim() ?? '';
+
+                // Reviewer line such as "Local Guide · 120 reviews"
+                const reviewCount = reviewerEl?.parentElement?.textContent?.match(/(\d[\d,]*) reviews?\b/)?.[1].replace(/,/g, '');
+
+                if (textEl) {
+                    const ratingMatch = ratingEl?.getAttribute('aria-label')?.match(/(\d)/);
+                    reviews.push({
+                        reviewId: card.getAttribute('data-review-id') || undefined,
+                        reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
+                        rating: ratingMatch ? parseInt(ratingMatch[1]) : 0,
+                        reviewText: textEl.textContent?.trim() || '',
+                        reviewDate: dateEl?.textContent?.trim() || '',
+                        ...(replyEl ? {
+                            ownerResponse: {
+                                text: (replyEl.textContent ?? '')
+                                    .replace(replyHeading!.textContent ?? '', '')
+                                    .replace(replyDate, '')
+                                    .trim(),
+                                date: replyDate,
+                            },
+                        } : {}),
+                        ...(reviewCount ? { reviewer: { reviewCount: parseInt(reviewCount) } } : {}),
+                    });
+                }
+            });
+
+            return reviews;
+        });
+
+        const aggregate = await readAggregateRating(page, {
+            total: 'button[aria-label*="reviews" i], [aria-label*="reviews" i]',
+            average: '.fontDisplayLarge',
+        });
+        return { reviews, ...aggregate };
+    },
+};
+
+async function sortByNewest(page: Page): Promise<void> {
+    try {
+        await page.click('button[aria-label*="Sort" i]', { timeout: 5000 });
+        await page.click('[role="menuitemradio"]:has-text("Newest")', { timeout: 5000 });
+        await new Promise(resolve => setTimeout(resolve, 2000));
+    } catch {
+        // Keep the default order when the sort menu is missing
+    }
+}
@@ -0,0 +1,36 @@
+import type { ReviewSourceType } from '../../types/index.js';
+import type { ReviewSourceAdapter } from './review-source-adapter.js';
+import { trustpilotAdapter } from './trustpilot.js';
+import { g2Adapter } from './g2.js';
+import { googleAdapter } from './google.js';
+import { capterraAdapter } from './capterra.js';
+import { yelpAdapter } from './yelp.js';
+import { appStoreAdapter } from './app-store.js';
+import { schemaOrgAdapter } from './schema-org.js';
+
+export type { ReviewSourceAdapter, ReviewPage, ExtractedReview, ReviewExtractContext } from './review-source-adapter.js';
+export { extractSchemaOrgReviews } from './schema-org.js';
+
+const adapters: Record<ReviewSourceType, ReviewSourceAdapter> = {
+    trustpilot: trustpilotAdapter,
+    g2: g2Adapter,
+    google: googleAdapter,
+    capterra: capterraAdapter,
+    yelp: yelpAdapter,
+    'app-store': appStoreAdapter,
+    'schema-org': schemaOrgAdapter,
+};
+
+export const REVIEW_SOURCE_TYPES = Object.keys(adapters) as ReviewSourceType[];
+
+export function getReviewSourceAdapter(type: ReviewSourceType): ReviewSourceAdapter {
+    return adapters[type];
+}
+
+/**
+ * The platform a review URL belongs to, or 'schema-org' for sites without their own adapter
+ */
+export function detectReviewSourceType(url: string): ReviewSourceType {
+    const parsed = new URL(url);
+    return Object.values(adapters).find(adapter => adapter.matchesUrl(parsed))?.type ?? 'schema-org';
+}
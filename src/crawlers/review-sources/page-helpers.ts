@@ -0,0 +1,167 @@
+import type { Page } from 'playwright';
+import type { ReviewExtractContext } from './review-source-adapter.js';
+
+// Scrolling and "load more" sources stop loading after this long
+const LOAD_MORE_BUDGET_MS = 60000;
+
+/**
+ * Copy of a URL with the given search parameters set (or removed, for null)
+ */
+export function withSearchParams(url: string, params: Record<string, string | null>): string {
+    const parsed = new URL(url);
+    for (const [name, value] of Object.entries(params)) {
+        if (value === null) {
+            parsed.searchParams.delete(name);
+        } else {
+            parsed.searchParams.set(name, value);
+        }
+    }
+    return parsed.href;
+}
+
+/**
+ * Next-page link a page declares with rel="next", resolved against the page URL
+ */
+export async function readRelNextUrl(page: Page): Promise<string | null> {
+    const href = await page.evaluate(() =>
+        document.querySelector('link[rel="next"], a[rel~="next"]')?.getAttribute('href') ?? null);
+    if (!href) return null;
+
+    try {
+        const next = new URL(href, page.url());
+        return next.href !== page.url() && next.protocol.startsWith('http') ? next.href : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function autoScroll(page: Page): Promise<void> {
+    await page.evaluate(async () => {
+        await new Promise<void>((resolve) => {
+            let totalHeight = 0;
+            const distance = 300;
+            const maxScrolls = 10;
+            let scrollCount = 0;
+
+            const timer = setInterval(() => {
+                const scrollHeight = document.body.scrollHeight;
+                window.scrollBy(0, distance);
+                totalHeight += distance;
+                scrollCount++;
+
+                if (totalHeight >= scrollHeight || scrollCount >= maxScrolls) {
+                    clearInterval(timer);
+                    resolve();
+                }
+            }, 200);
+        });
+    });
+}
+
+/**
+ * Loads more review cards, by scrolling the list that holds them or by clicking `loadMoreSelector`,
+ * until enough distinct cards have loaded, a known review shows up, or nothing more loads.
+ * Cards are told apart by `idAttribute`.
+ */
+export async function loadMoreReviews(
+    page: Page,
+    options: { cardSelector: string; idAttribute: string; loadMoreSelector?: string },
+    context: ReviewExtractContext,
+): Promise<void> {
+    await page.evaluate(async ({ cardSelector, idAttribute, loadMoreSelector, maxReviews, knownIds, budgetMs }) => {
+        const known = new Set(knownIds);
+        const deadline = Date.now() + budgetMs;
+        let lastCount = 0;
+        let stalled = 0;
+
+        const findScroller = (el: Element | null): Element => {
+            for (let node = el?.parentElement; node; node = node.parentElement) {
+                if (node.scrollHeight > node.clientHeight && /(auto|scroll)/.test(getComputedStyle(node).overflowY)) {
+                    return node;
+                }
+            }
+            return document.scrollingElement ?? document.documentElement;
+        };
+
+        while (Date.now() < deadline) {
+            const cards = Array.from(document.querySelectorAll(cardSelector));
+            const ids = new Set(cards.map((card, i) => card.getAttribute(idAttribute) ?? `#${i}`));
+            if (ids.size >= maxReviews || [...ids].some(id => known.has(id))) return;
+
+            // Three tries in a row without new reviews means the list has ended
+            stalled = ids.size === lastCount ? stalled + 1 : 0;
+            if (stalled >= 3) return;
+            lastCount = ids.size;
+
+            const button = loadMoreSelector ? document.querySelector<HTMLElement>(loadMoreSelector) : null;
+            if (button) {
+                button.click();
+            } else {
+                const scroller = findScroller(cards.at(-1) ?? null);
+                scroller.scrollTop = scroller.scrollHeight;
+            }
+            await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+    }, {
+        ...options,
+        loadMoreSelector: options.loadMoreSelector ?? null,
+        maxReviews: context.maxReviews,
+        knownIds: Array.from(context.knownIds),
+        budgetMs: LOAD_MORE_BUDGET_MS,
+    });
+}
+
+/**
+ * The platform's own review count and average: schema.org aggregateRating in JSON-LD first,
+ * then microdata, then the given selectors' text
+ */
+export async function readAggregateRating(
+    page: Page,
+    selectors: { total?: string; average?: string } = {},
+): Promise<{ platformTotalReviews: number | null; platformAverageRating: number | null }> {
+    return page.evaluate(({ selectors }) => {
+        const toNumber = (value: unknown): number | null => {
+            const match = String(value ?? '').replace(/[,\s]/g, '').match(/\d+(\.\d+)?/);
+            return match ? Number(match[0]) : null;
+        };
+
+        let total: number | null = null;
+        let average: number | null = null;
+
+        const visit = (node: unknown): void => {
+            if (!node || typeof node !== 'object' || (total !== null && average !== null)) return;
+            if (Array.isArray(node)) {
+                node.forEach(visit);
+                return;
+            }
+            const aggregate = (node as Record<string, unknown>).aggregateRating as Record<string, unknown> | undefined;
+            if (aggregate && typeof aggregate === 'object') {
+                total ??= toNumber(aggregate.reviewCount ?? aggregate.ratingCount);
+                average ??= toNumber(aggregate.ratingValue);
+            }
+            Object.values(node).forEach(visit);
+        };
+
+        document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+            try {
+                visit(JSON.parse(script.textContent || ''));
+            } catch {
+                // Ignore malformed JSON-LD
+            }
+        });
+
+        const readSelector = (selector: string | undefined): number | null => {
+            const el = selector ? document.querySelector(selector) : null;
+            return el ? toNumber(el.getAttribute('content') ?? el.getAttribute('aria-label') ?? el.textContent) : null;
+        };
+
+        return {
+            platformTotalReviews: total ??
+                readSelector('[itemprop="aggregateRating"] [itemprop="reviewCount"], [itemprop="aggregateRating"] [itemprop="ratingCount"]') ??
+                readSelector(selectors.total),
+            platformAverageRating: average ??
+                readSelector('[itemprop="aggregateRating"] [itemprop="ratingValue"]') ??
+                readSelector(selectors.average),
+        };
+    }, { selectors });
+}
@@ -0,0 +1,49 @@
+import type { Page } from 'playwright';
+import type { ReviewerDetails, ReviewSourceType } from '../../types/index.js';
+
+/**
+ * A review as a source's extractor reads it; the crawler adds the source, business name,
+ * crawl time and a hashed ID when the platform has none
+ */
+export interface ExtractedReview {
+    reviewId?: string;
+    reviewerName: string;
+    rating: number;
+    reviewText: string;
+    reviewDate: string;
+    /** The business's reply; `date` as the site shows it */
+    ownerResponse?: { text: string; date: string };
+    reviewer?: ReviewerDetails;
+}
+
+export interface ReviewPage {
+    reviews: ExtractedReview[];
+    platformTotalReviews: number | null;
+    platformAverageRating: number | null;
+}
+
+export interface ReviewExtractContext {
+    /** Reviews still wanted from this source */
+    maxReviews: number;
+    /** Incremental mode: IDs returned by earlier crawls, so scrolling sources can stop early */
+    knownIds: Set<string>;
+    /** Incremental mode: sources that sort client-side should switch to newest first */
+    newestFirst: boolean;
+}
+
+/**
+ * Everything the review crawler needs to know about one review platform
+ */
+export interface ReviewSourceAdapter {
+    type: ReviewSourceType;
+    /** Whether the platform's pages show business replies, so a review without one is unanswered */
+    capturesOwnerResponses: boolean;
+
+    /** Whether a URL belongs to this platform, used when a source leaves out its type */
+    matchesUrl(url: URL): boolean;
+    /** URL of the first results page, sorted newest first where the platform allows it */
+    getStartUrl(sourceUrl: string): string;
+    /** URL of the page after `pageNumber`, or null when every review loads on one page */
+    getNextPageUrl(page: Page, sourceUrl: string, pageNumber: number): Promise<string | null>;
+    extractReviews(page: Page, context: ReviewExtractContext): Promise<ReviewPage>;
+}
@@ -0,0 +1,110 @@
+import type { Page } from 'playwright';
+import type { ExtractedReview, ReviewPage, ReviewSourceAdapter } from './review-source-adapter.js';
+import { readAggregateRating, readRelNextUrl } from './page-helpers.js';
+
+/**
+ * Any page that marks up its reviews with schema.org Review (JSON-LD or microdata). Used for
+ * sources whose URL no platform adapter matches, and when a platform's own selectors find nothing.
+ */
+export const schemaOrgAdapter: ReviewSourceAdapter = {
+    type: 'schema-org',
+    capturesOwnerResponses: false,
+
+    // Only picked explicitly or as the fallback for unknown sites
+    matchesUrl(): boolean {
+        return false;
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return sourceUrl;
+    },
+
+    async getNextPageUrl(page) {
+        return readRelNextUrl(page);
+    },
+
+    extractReviews: extractSchemaOrgReviews,
+};
+
+/**
+ * Reviews and aggregate rating from schema.org markup. Ratings on other scales (bestRating
+ * other than 5) are converted to five stars.
+ */
+export async function extractSchemaOrgReviews(page: Page): Promise<ReviewPage> {
+    const reviews = await page.evaluate(() => {
+        const reviews: ExtractedReview[] = [];
+        const seen = new Set<string>();
+
+        const text = (value: unknown): string => {
+            if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+            if (Array.isArray(value)) return text(value[0]);
+            if (value && typeof value === 'object') return text((value as Record<string, unknown>).name);
+            return '';
+        };
+        const toStars = (value: string, best: string): number => {
+            const rating = parseFloat(value.replace(',', '.'));
+            const scale = parseFloat(best.replace(',', '.')) || 5;
+            return Number.isFinite(rating) ? Math.round(rating / scale * 5 * 100) / 100 : 0;
+        };
+        const add = (review: ExtractedReview) => {
+            if (!review.reviewText && !review.rating) return;
+            const key = `${review.reviewerName}|${review.reviewText}`;
+            if (seen.has(key)) return;
+            seen.add(key);
+            reviews.push(review);
+        };
+
+        const isReview = (node: Record<string, unknown>): boolean => {
+            const types = ([] as unknown[]).concat(node['@type'] ?? []).map(String);
+            return types.some(type => /(^|[/:])(\w*Review)$/.test(type));
+        };
+
+        const visit = (node: unknown): void => {
+            if (!node || typeof node !== 'object') return;
+            if (Array.isArray(node)) {
+                node.forEach(visit);
+                return;
+            }
+            const record = node as Record<string, unknown>;
+            if (isReview(record)) {
+                const rating = (record.reviewRating ?? {}) as Record<string, unknown>;
+                add({
+                    reviewId: text(record['@id'] ?? record.url) || undefined,
+                    reviewerName: text(record.author) || 'Anonymous',
+                    rating: toStars(text(rating.ratingValue), text(rating.bestRating)),
+                    reviewText: text(record.reviewBody ?? record.description),
+                    reviewDate: text(record.datePublished ?? record.dateCreated),
+                });
+            }
+            Object.values(record).forEach(visit);
+        };
+
+        document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+            try {
+                visit(JSON.parse(script.textContent || ''));
+            } catch {
+                // Ignore malformed JSON-LD
+            }
+        });
+
+        const read = (el: Element | null): string =>
+            (el?.getAttribute('content') ?? el?.getAttribute('datetime') ?? el?.textContent ?? '').trim();
+
+        document.querySelectorAll('[itemtype$="schema.org/Review"], [itemtype$="schema.org/UserReview"]').forEach(card => {
+            const author = card.querySelector('[itemprop="author"]');
+            const ratingScope = card.querySelector('[itemprop="reviewRating"]') ?? card;
+            add({
+                reviewId: card.getAttribute('itemid') || card.id || undefined,
+                reviewerName: read(author?.querySelector('[itemprop="name"]') ?? author) || 'Anonymous',
+                rating: toStars(read(ratingScope.querySelector('[itemprop="ratingValue"]')), read(ratingScope.querySelector('[itemprop="bestRating"]'))),
+                reviewText: read(card.querySelector('[itemprop="reviewBody"], [itemprop="description"]')),
+                reviewDate: read(card.querySelector('[itemprop="datePublished"], [itemprop="dateCreated"]')),
+            });
+        });
+
+        return reviews;
+    });
+
+    const aggregate = await readAggregateRating(page);
+    return { reviews, ...aggregate };
+}
@@ -0,0 +1,81 @@
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+import { autoScroll, readAggregateRating, withSearchParams } from './page-helpers.js';
+
+export const trustpilotAdapter: ReviewSourceAdapter = {
+    type: 'trustpilot',
+    capturesOwnerResponses: true,
+
+    matchesUrl(url: URL): boolean {
+        return /(^|\.)trustpilot\.com$/.test(url.hostname) && url.pathname.startsWith('/review/');
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return getPageUrl(sourceUrl, 1);
+    },
+
+    async getNextPageUrl(_page, sourceUrl, pageNumber) {
+        return getPageUrl(sourceUrl, pageNumber + 1);
+    },
+
+    async extractReviews(page) {
+        // Scroll to load lazy content
+        await autoScroll(page);
+
+        const reviews = await page.evaluate(() => {
+            const reviews: ExtractedReview[] = [];
+            const reviewCards = document.querySelectorAll('[data-service-review-card-paper]');
+
+            reviewCards.forEach((card) => {
+                const reviewerEl = card.querySelector('[data-consumer-name-typography]');
+                const ratingEl = card.querySelector('[data-service-review-rating]');
+                const textEl = card.querySelector('[data-service-review-text-typography]');
+                const dateEl = card.querySelector('time:not([data-service-review-business-reply-date-time-ago])');
+                const linkEl = card.querySelector('a[href*="/reviews/"]');
+                const replyEl = card.querySelector('[data-service-review-business-reply-text-typography]');
+                const replyDateEl = card.querySelector('[data-service-review-business-reply-date-time-ago]');
+                const reviewCountEl = card.querySelector('[data-consumer-reviews-count-typography]');
+                const countryEl = card.querySelector('[data-consumer-country-typography]');
+                const verifiedEl = card.querySelector('[data-review-label-tooltip-trigger]');
+
+                if (reviewerEl && textEl) {
+                    const ratingAttr = ratingEl?.getAttribute('data-service-review-rating');
+                    const reviewCount = reviewCountEl?.textContent?.match(/\d[\d,]*/)?.[0].replace(/,/g, '');
+                    const country = countryEl?.textContent?.trim();
+                    // Only a label naming the status decides it; no label leaves it unknown
+                    const label = verifiedEl?.textContent ?? '';
+                    const verified = /verified/i.test(label) ? true : /unprompted/i.test(label) ? false : undefined;
+                    reviews.push({
+                        reviewId: linkEl?.getAttribute('href')?.match(/\/reviews\/([\w-]+)/)?.[1],
+                        reviewerName: reviewerEl.textContent?.trim() || 'Anonymous',
+                        rating: ratingAttr ? parseInt(ratingAttr) : 0,
+                        reviewText: textEl.textContent?.trim() || '',
+                        reviewDate: dateEl?.getAttribute('datetime') || '',
+                        ...(replyEl ? {
+                            ownerResponse: {
+                                text: replyEl.textContent?.trim() || '',
+                                date: replyDateEl?.getAttribute('datetime') || replyDateEl?.textContent?.trim() || '',
+                            },
+                        } : {}),
+                        reviewer: {
+                            ...(reviewCount ? { reviewCount: parseInt(reviewCount) } : {}),
+                            ...(country ? { country } : {}),
+                            ...(verified !== undefined ? { verified } : {}),
+                        },
+                    });
+                }
+            });
+
+            return reviews;
+        });
+
+        const aggregate = await readAggregateRating(page, {
+            total: '[data-reviews-count-typography]',
+            average: '[data-rating-typography]',
+        });
+        return { reviews, ...aggregate };
+    },
+};
+
+function getPageUrl(sourceUrl: string, pageNumber: number): string {
+    return withSearchParams(sourceUrl, { sort: 'recency', page: pageNumber > 1 ? String(pageNumber) : null });
+}
@@ -0,0 +1,82 @@
+import type { ExtractedReview, ReviewSourceAdapter } from './review-source-adapter.js';
+import { autoScroll, readAggregateRating, withSearchParams } from './page-helpers.js';
+
+// Reviews per Yelp page (used for start= offsets)
+const YELP_PAGE_SIZE = 10;
+
+export const yelpAdapter: ReviewSourceAdapter = {
+    type: 'yelp',
+    capturesOwnerResponses: true,
+
+    matchesUrl(url: URL): boolean {
+        return /(^|\.)yelp\.[a-z.]+$/.test(url.hostname) && url.pathname.startsWith('/biz/');
+    },
+
+    getStartUrl(sourceUrl: string): string {
+        return getPageUrl(sourceUrl, 1);
+    },
+
+    async getNextPageUrl(_page, sourceUrl, pageNumber) {
+        return getPageUrl(sourceUrl, pageNumber + 1);
+    },
+
+    async extractReviews(page) {
+        await autoScroll(page);
+
+        const reviews = await page.evaluate(() => {
+            const reviews: ExtractedReview[] = [];
+            const reviewCards = Array.from(document.querySelectorAll('#reviews li'))
+                .filter(card => card.querySelector('[aria-label$="star rating"]'));
+
+            reviewCards.forEach((card) => {
+                const reviewerEl = card.querySelector('a[href*="/user_details"]');
+                const ratingEl = card.querySelector('[aria-label$="star rating"]');
+                const reviewLink = card.querySelector('a[href*="hrid="]')?.getAttribute('href');
+
+                // Owner replies start with "Comment from <name> of <business>"
+                const replyHeading = Array.from(card.querySelectorAll('p, span, div'))
+                    .find(el => el.children.length === 0 && /^comment from\b/i.test(el.textContent?.trim() ?? ''));
+                const replyEl = replyHeading?.parentElement?.parentElement ?? null;
+                const outsideReply = (el: Element) => !replyEl || !replyEl.contains(el);
+
+                const isDate = (el: Element) => /^(\w{3} \d{1,2}, \d{4}|\d{1,2}\/\d{1,2}\/\d{4})$/.test(el.textContent?.trim() ?? '');
+                const textEl = Array.from(card.querySelectorAll('p[class*="comment"] span[lang], span[lang]')).find(outsideReply);
+                const dateEl = Array.from(card.querySelectorAll('span')).filter(outsideReply).find(isDate);
+                const replyTextEl = replyEl?.querySelector('span[lang], p:not(:first-child)');
+                const replyDateEl = replyEl ? Array.from(replyEl.querySelectorAll('span')).find(isDate) : undefined;
+
+                // Reviewer stats such as "45 reviews" next to the name
+                const passport = reviewerEl?.closest('[class*="passport"], [class*="user-info"]') ?? reviewerEl?.parentElement?.parentElement;
+                const reviewCount = passport?.textContent?.match(/(\d[\d,]*)\s*reviews?\b/i)?.[1].replace(/,/g, '');
+
+                if (textEl) {
+                    const ratingMatch = ratingEl?.getAttribute('aria-label')?.match(/\d+(\.\d+)?/);
+                    reviews.push({
+                        reviewId: reviewLink?.match(/hrid=([\w-]+)/)?.[1],
+                        reviewerName: reviewerEl?.textContent?.trim() || 'Anonymous',
+                        rating: ratingMatch ? parseFloat(ratingMatch[0]) : 0,
+                        reviewText: textEl.textContent?.trim() || '',
+                        reviewDate: dateEl?.textContent?.trim() || '',
+                        ...(replyEl && replyTextEl ? {
+                            ownerResponse: {
+                                text: replyTextEl.textContent?.trim() || '',
+                                date: replyDateEl?.textContent?.trim() || '',
+                            },
+                        } : {}),
+                        ...(reviewCount ? { reviewer: { reviewCount: parseInt(reviewCount) } } : {}),
+                    });
+                }
+            });
+
+            return reviews;
+        });
+
+        const aggregate = await readAggregateRating(page);
+        return { reviews, ...aggregate };
+    },
+};
+
+function getPageUrl(sourceUrl: string, pageNumber: number): string {
+    const start = (pageNumber - 1) * YELP_PAGE_SIZE;
+    return withSearchParams(sourceUrl, { sort_by: 'date_desc', start: start > 0 ? String(start) : null });
+}
@@ -0,0 +1,48 @@
+import type { Page } from 'playwright';
+import type { ScreenshotInfo, ScreenshotViewport } from '../types/index.js';
+
+// Taller pages are cut off, keeping images (and pixel diffs) to a bounded size
+export const MAX_SCREENSHOT_HEIGHT = 6000;
+
+const VIEWPORTS: Record<ScreenshotViewport, { width: number; height: number }> = {
+    desktop: { width: 1366, height: 768 },
+    mobile: { width: 390, height: 844 },
+};
+
+// Time for the layout to settle after a resize
+const RESIZE_SETTLE_MS = 1000;
+
+export interface CapturedScreenshot {
+    info: ScreenshotInfo;
+    image: Buffer;
+}
+
+/**
+ * Full-page PNG screenshots at each viewport. The mobile shot resizes the loaded page rather
+ * than reloading it with a mobile user agent, so it shows the responsive layout.
+ */
+export async function captureScreenshots(page: Page): Promise<CapturedScreenshot[]> {
+    const originalViewport = page.viewportSize();
+    const screenshots: CapturedScreenshot[] = [];
+
+    for (const viewport of Object.keys(VIEWPORTS) as ScreenshotViewport[]) {
+        const { width } = VIEWPORTS[viewport];
+        await page.setViewportSize(VIEWPORTS[viewport]);
+        await new Promise(resolve => setTimeout(resolve, RESIZE_SETTLE_MS));
+
+        const pageHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+        const height = Math.max(1, Math.min(pageHeight, MAX_SCREENSHOT_HEIGHT));
+
+        const image = await page.screenshot({
+            type: 'png',
+            fullPage: true,
+            clip: { x: 0, y: 0, width, height },
+            animations: 'disabled',
+        });
+        screenshots.push({ info: { viewport, width, height, truncated: pageHeight > MAX_SCREENSHOT_HEIGHT }, image });
+    }
+
+    if (originalViewport) await page.setViewportSize(originalViewport);
+
+    return screenshots;
+}
@@ -0,0 +1,60 @@
+import type { Page } from 'playwright';
+import type { ResolvedSerpTargeting, SerpBlock } from '../../types/index.js';
+import type { SearchEngineAdapter } from './search-engine-adapter.js';
+import { parseBingSerp } from '../../parsers/serp/bing.js';
+
+// Organic results per Bing page (used for first= offsets)
+const BING_PAGE_SIZE = 10;
+
+export const bingAdapter: SearchEngineAdapter = {
+    name: 'bing',
+    pageSize: BING_PAGE_SIZE,
+
+    buildSearchUrl(keyword: string, targeting: ResolvedSerpTargeting, page: number): string {
+        const params = new URLSearchParams({
+            q: keyword,
+            setlang: targeting.language,
+            cc: targeting.country,
+            mkt: `${targeting.language.split('-')[0]}-${targeting.country.toUpperCase()}`,
+        });
+
+        const first = (page - 1) * BING_PAGE_SIZE + 1;
+        if (first > 1) params.set('first', String(first));
+
+        return `https://www.bing.com/search?${params.toString()}`;
+    },
+
+    async getNextPageUrl(_page, keyword, targeting, pageNumber) {
+        return this.buildSearchUrl(keyword, targeting, pageNumber + 1);
+    },
+
+    handleConsent: handleBingConsent,
+
+    async detectBlock(page: Page, status?: number): Promise<SerpBlock | null> {
+        if (page.url().includes('/challenge') || await page.$('#b_captcha, .captcha, #turnstile-widget')) {
+            return { reason: 'captcha', message: 'Blocked by Bing (captcha challenge). Try proxies or a longer delay.' };
+        }
+        if (status === 429) {
+            return { reason: 'rate_limited', message: 'Rate limited by Bing (HTTP 429).' };
+        }
+        return null;
+    },
+
+    parseResults: parseBingSerp,
+};
+
+/**
+ * Accept Bing's cookie banner if it is shown (EU markets)
+ */
+async function handleBingConsent(page: Page): Promise<void> {
+    try {
+        const btn = await page.$('#bnp_btn_accept, button#bnp_btn_accept');
+        if (btn) {
+            await btn.click();
+            await page.waitForLoadState('networkidle', { timeout: 15000 });
+            console.log('Bing consent accepted');
+        }
+    } catch (e) {
+        console.warn('Bing consent handling failed:', e);
+    }
+}
@@ -0,0 +1,59 @@
+import type { Page } from 'playwright';
+import type { ResolvedSerpTargeting, SerpBlock } from '../../types/index.js';
+import type { SearchEngineAdapter } from './search-engine-adapter.js';
+import { parseDuckDuckGoSerp } from '../../parsers/serp/duckduckgo.js';
+
+const DDG_HTML_ENDPOINT = 'https://html.duckduckgo.com/html/';
+
+export const duckDuckGoAdapter: SearchEngineAdapter = {
+    name: 'duckduckgo',
+    // The HTML endpoint returns a larger first page than Google or Bing
+    pageSize: 25,
+
+    // Uses the no-JS HTML endpoint, which is stable and paginates through a plain form
+    buildSearchUrl(keyword: string, targeting: ResolvedSerpTargeting): string {
+        const params = new URLSearchParams({
+            q: keyword,
+            kl: buildRegion(targeting),
+        });
+        return `${DDG_HTML_ENDPOINT}?${params.toString()}`;
+    },
+
+    // Offsets are not fixed, so follow the "Next" form's own parameters
+    async getNextPageUrl(page: Page): Promise<string | null> {
+        const fields = await page.evaluate(() => {
+            // From page 2 on a "Previous" form comes first, with the same button class
+            const form = Array.from(document.querySelectorAll<HTMLFormElement>('.nav-link form'))
+                .find(f => f.querySelector('input[type="submit"][value^="Next"]'));
+            if (!form) return null;
+            return Array.from(form.querySelectorAll<HTMLInputElement>('input[name]'))
+                .map(input => [input.name, input.value] as [string, string]);
+        });
+
+        if (!fields) return null;
+        return `${DDG_HTML_ENDPOINT}?${new URLSearchParams(fields).toString()}`;
+    },
+
+    // DuckDuckGo shows no consent wall
+    async handleConsent(): Promise<void> {},
+
+    async detectBlock(page: Page, status?: number): Promise<SerpBlock | null> {
+        if (await page.$('.anomaly-modal, #challenge-form, form[action*="/anomaly"]')) {
+            return { reason: 'captcha', message: 'Blocked by DuckDuckGo (anomaly challenge). Try proxies or a longer delay.' };
+        }
+        if (status === 429) {
+            return { reason: 'rate_limited', message: 'Rate limited by DuckDuckGo (HTTP 429).' };
+        }
+        return null;
+    },
+
+    parseResults: parseDuckDuckGoSerp,
+};
+
+/**
+ * DuckDuckGo region codes are "<country>-<language>", with "uk" for the United Kingdom
+ */
+function buildRegion(targeting: ResolvedSerpTargeting): string {
+    const country = targeting.country === 'gb' ? 'uk' : targeting.country;
+    return `${country}-${targeting.language.split('-')[0]}`;
+}
@@ -0,0 +1,103 @@
+import type { Page } from 'playwright';
+import type { ResolvedSerpTargeting, SerpBlock } from '../../types/index.js';
+import type { SearchEngineAdapter } from './search-engine-adapter.js';
+import { parseGoogleSerp } from '../../parsers/serp/google.js';
+
+// Organic results per Google page (used for start= offsets)
+const GOOGLE_PAGE_SIZE = 10;
+
+// uule v1 length prefix alphabet: the character at index N encodes a location name of N bytes
+const UULE_LENGTH_KEY = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+export const MAX_UULE_LOCATION_BYTES = UULE_LENGTH_KEY.length - 1;
+
+export const googleAdapter: SearchEngineAdapter = {
+    name: 'google',
+    pageSize: GOOGLE_PAGE_SIZE,
+
+    buildSearchUrl(keyword: string, targeting: ResolvedSerpTargeting, page: number): string {
+        const params = new URLSearchParams({
+            q: keyword,
+            hl: targeting.language,
+            gl: targeting.country,
+        });
+        if (targeting.location) params.set('uule', encodeUule(targeting.location));
+
+        const start = (page - 1) * GOOGLE_PAGE_SIZE;
+        if (start > 0) params.set('start', String(start));
+
+        return `https://www.google.com/search?${params.toString()}`;
+    },
+
+    async getNextPageUrl(_page, keyword, targeting, pageNumber) {
+        return this.buildSearchUrl(keyword, targeting, pageNumber + 1);
+    },
+
+    handleConsent: handleGoogleConsent,
+
+    async detectBlock(page: Page, status?: number): Promise<SerpBlock | null> {
+        const url = page.url();
+        if (url.includes('/sorry/')) {
+            return { reason: 'sorry_page', message: 'Blocked by Google (sorry page). Try headless: false or use proxies.' };
+        }
+        if (await page.$('#captcha-form, iframe[src*="recaptcha"], .g-recaptcha')) {
+            return { reason: 'captcha', message: 'Blocked by Google (captcha).' };
+        }
+        if (status === 429) {
+            return { reason: 'rate_limited', message: 'Rate limited by Google (HTTP 429).' };
+        }
+        if (isConsentUrl(url)) {
+            return { reason: 'consent_loop', message: 'Stuck on Google consent page after trying to accept it.' };
+        }
+        return null;
+    },
+
+    parseResults: parseGoogleSerp,
+};
+
+/**
+ * Encode a canonical location name as a Google uule (v1) parameter
+ */
+export function encodeUule(location: string): string {
+    const length = Buffer.byteLength(location, 'utf8');
+    if (length > MAX_UULE_LOCATION_BYTES) {
+        throw new Error(`Location name too long for uule encoding (${length} bytes)`);
+    }
+    return `w+CAIQICI${UULE_LENGTH_KEY[length]}${Buffer.from(location, 'utf8').toString('base64')}`;
+}
+
+function isConsentUrl(url: string): boolean {
+    return url.includes('consent.google') || url.includes('consent.') || url.includes('consent.youtube');
+}
+
+/**
+ * Try to click through Google's consent / cookie page if it appears.
+ */
+async function handleGoogleConsent(page: Page): Promise<void> {
+    try {
+        if (!isConsentUrl(page.url())) {
+            return;
+        }
+
+        console.log('Consent page detected, trying to accept…');
+
+        const selectors = [
+            'button[aria-label="Accept all"]',
+            'button[aria-label="I agree"]',
+            'button:has-text("I agree")',
+            'button:has-text("Accept all")',
+            'button:has-text("Accept")',
+        ];
+
+        for (const sel of selectors) {
+            const btn = await page.$(sel);
+            if (btn) {
+                await btn.click();
+                await page.waitForLoadState('networkidle', { timeout: 15000 });
+                console.log('Consent accepted using selector:', sel);
+                break;
+            }
+        }
+    } catch (e) {
+        console.warn('Consent handling failed:', e);
+    }
+}
@@ -0,0 +1,20 @@
+import type { SearchEngine } from '../../types/index.js';
+import type { SearchEngineAdapter } from './search-engine-adapter.js';
+import { googleAdapter } from './google.js';
+import { bingAdapter } from './bing.js';
+import { duckDuckGoAdapter } from './duckduckgo.js';
+
+export type { SearchEngineAdapter } from './search-engine-adapter.js';
+export { MAX_UULE_LOCATION_BYTES } from './google.js';
+
+const adapters: Record<SearchEngine, SearchEngineAdapter> = {
+    google: googleAdapter,
+    bing: bingAdapter,
+    duckduckgo: duckDuckGoAdapter,
+};
+
+export const SEARCH_ENGINES = Object.keys(adapters) as SearchEngine[];
+
+export function getSearchEngineAdapter(engine: SearchEngine): SearchEngineAdapter {
+    return adapters[engine];
+}
@@ -0,0 +1,20 @@
+import type { Page } from 'playwright';
+import type { SearchEngine, ResolvedSerpTargeting, ParsedSerpPage, SerpParseOptions, SerpBlock } from '../../types/index.js';
+
+/**
+ * Everything the SERP crawler needs to know about one search engine
+ */
+export interface SearchEngineAdapter {
+    name: SearchEngine;
+    /** Approximate organic results per page, used to bound pagination */
+    pageSize: number;
+
+    buildSearchUrl(keyword: string, targeting: ResolvedSerpTargeting, page: number): string;
+    /** URL of the page after `pageNumber`, or null when the engine offers no further page */
+    getNextPageUrl(page: Page, keyword: string, targeting: ResolvedSerpTargeting, pageNumber: number): Promise<string | null>;
+    handleConsent(page: Page): Promise<void>;
+    /** Classifies a blocked page (run after consent handling), or returns null if it looks like a normal SERP */
+    detectBlock(page: Page, status?: number): Promise<SerpBlock | null>;
+    /** Pure HTML parser (see src/parsers/serp), run on the page's rendered content */
+    parseResults(html: string, options: SerpParseOptions): ParsedSerpPage;
+}
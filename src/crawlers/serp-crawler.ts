@@ -1,19 +1,85 @@
 // src/crawlers/serp-crawler.ts
 import { PlaywrightCrawler, ProxyConfiguration } from 'crawlee';
-import { Page } from 'playwright';
-import type { SerpCrawlerConfig, SERPResult } from '../types/index.js';
+import { Page, devices } from 'playwright';
+import type {
+    SerpCrawlerConfig,
+    SERPResult,
+    SerpResultType,
+    SerpFeatureSummary,
+    SerpCrawlOutput,
+    SerpTargeting,
+    ResolvedSerpTargeting,
+    SearchEngine,
+    CrawlerRunOptions,
+    ParsedSerpPage,
+    SerpBlock,
+    SerpBlockReason,
+    SerpFailure,
+    PolitenessOptions,
+    SkippedUrl,
+} from '../types/index.js';
+import { runWithSignal, openRunQueue } from './crawler-utils.js';
+import { recordSerpRun, getRunRankings } from '../history/rank-history.js';
+import {
+    registerProxies,
+    pickProxy,
+    isProxyUsable,
+    recordProxySuccess,
+    recordProxyFailure,
+} from '../proxies/proxy-health.js';
+import { getSearchEngineAdapter } from './search-engines/index.js';
+import { checkRobots, filterByRobots, waitForHostTurn } from '../politeness/politeness.js';
+import type { SearchEngineAdapter } from './search-engines/index.js';
+
+export const MAX_SERP_RESULTS = 100;
+
+// Device profile used for mobile emulation (Chromium-based, matches the crawler's browser)
+const MOBILE_DEVICE = devices['Pixel 7'];
+const DESKTOP_VIEWPORT = { width: 1920, height: 1080 };
 
 /**
- * Runs the SERP crawler and returns results in-memory (no Dataset usage)
+ * Thrown when a SERP page is classified as blocked, so retries and proxy scoring know why
  */
-export async function runSerpCrawler(config: SerpCrawlerConfig): Promise<SERPResult[]> {
+class SerpBlockedError extends Error {
+    readonly reason: SerpBlockReason;
+
+    constructor(block: SerpBlock) {
+        super(block.message);
+        this.name = 'SerpBlockedError';
+        this.reason = block.reason;
+    }
+}
+
+interface KeywordState {
+    summary: SerpFeatureSummary;
+    seen: Set<string>;
+    positions: Partial<Record<SerpResultType, number>>;
+}
+
+/**
+ * Runs the SERP crawler and returns results plus per-keyword SERP features in-memory (no Dataset usage)
+ */
+export async function runSerpCrawler(
+    config: SerpCrawlerConfig,
+    options: CrawlerRunOptions = {},
+): Promise<SerpCrawlOutput> {
     const {
         keywords,
         maxResults = 10,
         proxyUrls,
         minDelay = 3000,
         maxDelay = 8000,
+        engines = ['google'],
+        persistHistory = false,
+        trackedDomains,
+        respectRobotsTxt = false,
+        robotsUserAgent,
+        hostDelayMs,
     } = config;
+    // Search engines disallow their result pages, so robots.txt is only honoured on request
+    const politeness: PolitenessOptions = { respectRobotsTxt, robotsUserAgent, hostDelayMs };
+    const defaultTargeting = resolveTargeting(config);
+    const { signal, onProgress } = options;
 
     // Validate input
     if (!keywords || keywords.length === 0) {
@@ -22,20 +88,60 @@ export async function runSerpCrawler(config: SerpCrawlerConfig): Promise<SERPRes
 
     // Collect results in memory
     const results: SERPResult[] = [];
+    const features: SerpFeatureSummary[] = [];
+    const failures: SerpFailure[] = [];
+    const skipped: SkippedUrl[] = [];
+    const keywordStates = new Map<string, KeywordState>();
+    let completed = 0;
+    let total = keywords.length * engines.length;
+    const reportProgress = () => onProgress?.({ completed: ++completed, total });
+
+    // Configure health-aware proxy rotation for Google-safe crawling.
+    // Each session sticks to its proxy until the proxy is cooling down or removed.
+    const sessionProxies = new Map<string | number, string>();
+    if (proxyUrls?.length) registerProxies(proxyUrls);
 
-    // Configure proxy rotation for Google-safe crawling
     const proxyConfiguration = proxyUrls?.length
-        ? new ProxyConfiguration({ proxyUrls })
+        ? new ProxyConfiguration({
+            newUrlFunction: (sessionId) => {
+                const current = sessionProxies.get(sessionId);
+                if (current && isProxyUsable(current)) return current;
+
+                const next = pickProxy(proxyUrls);
+                sessionProxies.set(sessionId, next);
+                return next;
+            },
+        })
         : undefined;
 
+    // Counts a failed attempt against its proxy and retires the session when it was blocked
+    const recordAttemptFailure = (
+        { session, proxyInfo }: { session?: { retire(): void }; proxyInfo?: { url: string } },
+        error: Error,
+    ) => {
+        const reason = error instanceof SerpBlockedError ? error.reason : 'error';
+        if (proxyInfo?.url) recordProxyFailure(proxyInfo.url, reason);
+        if (error instanceof SerpBlockedError) session?.retire();
+    };
+
     const crawler = new PlaywrightCrawler({
+        requestQueue: await openRunQueue(),
         proxyConfiguration,
         maxConcurrency: 1, // Sequential for Google safety
         maxRequestRetries: 3,
         requestHandlerTimeoutSecs: 60,
 
+        // Sticky sessions; block status codes are classified by the engine adapters instead
+        useSessionPool: true,
+        persistCookiesPerSession: true,
+        sessionPoolOptions: {
+            blockedStatusCodes: [],
+        },
+
         // Browser configuration for stealth / debugging
         launchContext: {
+            // A context per page lets every request use its own session's proxy
+            useIncognitoPages: Boolean(proxyUrls?.length),
             launchOptions: {
                 headless: false,  // DEBUG: set to true for production
                 args: [
@@ -46,11 +152,18 @@ export async function runSerpCrawler(config: SerpCrawlerConfig): Promise<SERPRes
             },
         },
 
-        // Pre-navigation hooks for stealth
+        // Pre-navigation hooks for stealth and device/locale targeting
         preNavigationHooks: [
-            async ({ page }) => {
-                // Set realistic viewport
-                await page.setViewportSize({ width: 1920, height: 1080 });
+            async ({ page, request }) => {
+                await waitForHostTurn(request.url, politeness);
+                const targeting = request.userData.targeting as ResolvedSerpTargeting;
+
+                if (targeting.device === 'mobile') {
+                    await emulateMobile(page, targeting);
+                } else {
+                    // Set realistic viewport
+                    await page.setViewportSize(DESKTOP_VIEWPORT);
+                }
 
                 // Override navigator.webdriver
                 await page.addInitScript(() => {
@@ -61,14 +174,17 @@ export async function runSerpCrawler(config: SerpCrawlerConfig): Promise<SERPRes
 
                 // Set realistic headers
                 await page.setExtraHTTPHeaders({
-                    'Accept-Language': 'en-US,en;q=0.9',
+                    'Accept-Language': buildAcceptLanguage(targeting),
                 });
             },
         ],
 
-        async requestHandler({ request, page, log }) {
+        async requestHandler({ request, response, page, log, crawler, proxyInfo }) {
             const keyword = request.userData.keyword as string;
-            log.info(`Crawling SERP for: ${keyword}`);
+            const targeting = request.userData.targeting as ResolvedSerpTargeting;
+            const adapter = getSearchEngineAdapter(request.userData.engine as SearchEngine);
+            const pageNumber = (request.userData.page as number | undefined) ?? 1;
+            log.info(`Crawling ${adapter.name} SERP for: ${keyword} (page ${pageNumber}, ${describeTargeting(targeting)})`);
 
             // Allow page to load
             try {
@@ -83,141 +199,229 @@ export async function runSerpCrawler(config: SerpCrawlerConfig): Promise<SERPRes
             log.info(`Loaded URL: ${currentUrl}`);
             log.info(`Page title: ${title}`);
 
-            if (currentUrl.includes('/sorry/')) {
-                log.error('Blocked by Google (sorry page).');
-                throw new Error('Blocked by Google (sorry page). Try headless: false or use proxies.');
-            }
+            // Handle consent / cookie screen if present
+            await adapter.handleConsent(page);
 
-            // Handle Google consent / cookie screen if present
-            await handleGoogleConsent(page);
-
-            // Count result headings (any <h3> inside an <a>)
-            const headingsCount = await page.evaluate(
-                () => document.querySelectorAll('a h3').length,
-            );
-            log.info(`Found ${headingsCount} <h3> elements inside <a> tags`);
+            const block = await adapter.detectBlock(page, response?.status());
+            if (block) {
+                log.error(`${block.message} [${block.reason}]`);
+                // Keep what earlier pages returned rather than hammering a blocked deep page
+                if (pageNumber > 1) request.noRetry = true;
+                throw new SerpBlockedError(block);
+            }
 
             // Random delay to mimic human behavior
             const delay = Math.random() * (maxDelay - minDelay) + minDelay;
             await new Promise((resolve) => setTimeout(resolve, delay));
 
             // Extract SERP results
-            const pageResults = await extractSerpResults(page, keyword, maxResults);
+            const { results: pageResults, summary } = adapter.parseResults(await page.content(), {
+                keyword,
+                maxResults: adapter.pageSize * 2,
+                pageUrl: page.url(),
+            });
+
+            // A first page with nothing on it is usually a soft block rather than a real empty SERP
+            if (pageNumber === 1 && pageResults.length === 0) {
+                throw new SerpBlockedError({ reason: 'empty_serp', message: `Empty SERP for "${keyword}"` });
+            }
 
-            // Push to in-memory array (NOT Dataset)
-            results.push(...pageResults);
+            if (proxyInfo?.url) recordProxySuccess(proxyInfo.url);
 
-            log.info(`Extracted ${pageResults.length} results for: ${keyword}`);
-        },
+            const state = getKeywordState(keyword, targeting, adapter.name);
+            mergeFeatureSummary(state.summary, summary);
 
-        failedRequestHandler({ request, log }) {
-            log.error(`Request failed: ${request.url}`);
-        },
-    });
+            // Assign absolute positions across pages, skipping URLs already seen on earlier pages
+            let newOrganic = 0;
+            for (const result of pageResults) {
+                const dedupeKey = `${result.resultType}|${result.url}`;
+                if (state.seen.has(dedupeKey)) continue;
+                if (result.resultType === 'organic' && (state.positions.organic ?? 0) >= maxResults) continue;
 
-    // Build request queue
-    const requests = keywords.map((keyword) => ({
-        url: `https://www.google.com/search?q=${encodeURIComponent(keyword)}&num=${maxResults}`,
-        userData: { keyword },
-    }));
+                state.seen.add(dedupeKey);
+                const position = (state.positions[result.resultType] ?? 0) + 1;
+                state.positions[result.resultType] = position;
+                if (result.resultType === 'organic') newOrganic++;
 
-    // Run the crawler
-    await crawler.run(requests);
+                // Push to in-memory array (NOT Dataset)
+                results.push({ ...result, position, engine: adapter.name, targeting, page: pageNumber });
+            }
 
-    return results;
-}
+            log.info(
+                `Extracted ${newOrganic} new organic results for: ${keyword} (page ${pageNumber})` +
+                (summary.features.length ? ` (features: ${summary.features.join(', ')})` : ''),
+            );
 
-/**
- * Try to click through Google's consent / cookie page if it appears.
- */
-async function handleGoogleConsent(page: Page): Promise<void> {
-    try {
-        const url = page.url();
-        if (
-            !url.includes('consent.google') &&
-            !url.includes('consent.') &&
-            !url.includes('consent.youtube')
-        ) {
-            return;
-        }
+            // Stop paginating once enough results are collected or a page comes back empty.
+            // Allow a couple of extra pages since engines often show fewer organic results than a full page.
+            const organicCount = state.positions.organic ?? 0;
+            const maxPages = Math.ceil(maxResults / adapter.pageSize) + 2;
+            if (organicCount < maxResults && newOrganic > 0 && pageNumber < maxPages) {
+                const nextUrl = await adapter.getNextPageUrl(page, keyword, targeting, pageNumber);
+                const skip = nextUrl ? await checkRobots(nextUrl, politeness) : null;
+                if (skip) skipped.push(skip);
+                if (nextUrl && !skip) {
+                    await crawler.addRequests([buildSerpRequest(adapter, keyword, targeting, pageNumber + 1, nextUrl)]);
+                    return;
+                }
+            }
 
-        console.log('Consent page detected, trying to accept…');
-
-        const selectors = [
-            'button[aria-label="Accept all"]',
-            'button[aria-label="I agree"]',
-            'button:has-text("I agree")',
-            'button:has-text("Accept all")',
-            'button:has-text("Accept")',
-        ];
-
-        for (const sel of selectors) {
-            const btn = await page.$(sel);
-            if (btn) {
-                await btn.click();
-                await page.waitForLoadState('networkidle', { timeout: 15000 });
-                console.log('Consent accepted using selector:', sel);
-                break;
+            if (organicCount < maxResults) {
+                log.info(`Stopped paginating "${keyword}" at page ${pageNumber} with ${organicCount} results`);
             }
+            reportProgress();
+        },
+
+        errorHandler(context, error) {
+            recordAttemptFailure(context, error);
+        },
+
+        failedRequestHandler(context, error) {
+            const { request, log } = context;
+            log.error(`Request failed: ${request.url}`);
+            recordAttemptFailure(context, error);
+
+            failures.push({
+                keyword: request.userData.keyword as string,
+                engine: request.userData.engine as SearchEngine,
+                targeting: request.userData.targeting as ResolvedSerpTargeting,
+                page: (request.userData.page as number | undefined) ?? 1,
+                reason: error instanceof SerpBlockedError ? error.reason : 'error',
+                error: error.message,
+            });
+            reportProgress();
+        },
+    });
+
+    function getKeywordState(keyword: string, targeting: ResolvedSerpTargeting, engine: SearchEngine): KeywordState {
+        const stateKey = `${engine}|${keyword}|${describeTargeting(targeting)}`;
+        let state = keywordStates.get(stateKey);
+        if (!state) {
+            state = {
+                summary: {
+                    keyword,
+                    engine,
+                    targeting,
+                    features: [],
+                    peopleAlsoAsk: [],
+                    relatedSearches: [],
+                    knowledgePanel: null,
+                },
+                seen: new Set(),
+                positions: {},
+            };
+            keywordStates.set(stateKey, state);
+            features.push(state.summary);
         }
-    } catch (e) {
-        console.warn('Consent handling failed:', e);
+        return state;
     }
-}
 
-/**
- * Extract SERP results using the pattern "any <h3> inside an <a>".
- */
-async function extractSerpResults(
-    page: Page,
-    keyword: string,
-    maxResults: number,
-): Promise<SERPResult[]> {
-    return page.evaluate(
-        ({ keyword, maxResults }) => {
-            const results: SERPResult[] = [];
-
-            // Find all headings that are children of links
-            const headingNodes = Array.from(
-                document.querySelectorAll<HTMLHeadingElement>('a h3'),
-            );
+    // Build request queue (first page per keyword and engine; later pages are enqueued as we go)
+    const firstPages = engines.flatMap((engine) => {
+        const adapter = getSearchEngineAdapter(engine);
+        return keywords.map((entry) => {
+            if (typeof entry === 'string') {
+                return buildSerpRequest(adapter, entry, defaultTargeting, 1);
+            }
+            const { keyword, ...overrides } = entry;
+            return buildSerpRequest(adapter, keyword, resolveTargeting({ ...config, ...overrides }), 1);
+        });
+    });
+    const { allowed: requests, skipped: skippedFirstPages } = await filterByRobots(firstPages, request => request.url, politeness);
+    skipped.push(...skippedFirstPages);
+    total = requests.length;
 
-            let position = 1;
+    // Run the crawler
+    await runWithSignal(crawler, requests, signal);
 
-            for (const h3 of headingNodes) {
-                if (position > maxResults) break;
+    if (persistHistory) {
+        await recordSerpRun(results);
+    }
 
-                const link = h3.closest('a');
-                if (!link || !link.href) continue;
+    const rankings = trackedDomains?.length
+        ? await getRunRankings(results, trackedDomains, persistHistory)
+        : undefined;
 
-                // Try to find a nearby description snippet
-                let description = '';
-                const container = link.closest('div');
+    return {
+        results,
+        features,
+        failures,
+        ...(rankings ? { rankings } : {}),
+        ...(skipped.length > 0 ? { skipped } : {}),
+    };
+}
 
-                if (container) {
-                    const descEl =
-                        container.querySelector<HTMLElement>('.VwiC3b') ??
-                        container.querySelector<HTMLElement>('[data-sncf]') ??
-                        container.querySelector<HTMLElement>('div[style*="-webkit-line-clamp"]');
-                    description = descEl?.textContent?.trim() ?? '';
-                }
+export function resolveTargeting(targeting: SerpTargeting): ResolvedSerpTargeting {
+    return {
+        country: (targeting.country ?? 'us').toLowerCase(),
+        language: (targeting.language ?? 'en').toLowerCase(),
+        ...(targeting.location ? { location: targeting.location } : {}),
+        device: targeting.device ?? 'desktop',
+    };
+}
 
-                results.push({
-                    keyword,
-                    position,
-                    url: link.href,
-                    title: h3.textContent?.trim() || '',
-                    description,
-                    crawledAt: new Date().toISOString(),
-                });
+function describeTargeting(targeting: ResolvedSerpTargeting): string {
+    return [targeting.country, targeting.language, targeting.location, targeting.device].filter(Boolean).join('/');
+}
 
-                position++;
-            }
+function buildSerpRequest(
+    adapter: SearchEngineAdapter,
+    keyword: string,
+    targeting: ResolvedSerpTargeting,
+    page: number,
+    url = adapter.buildSearchUrl(keyword, targeting, page),
+) {
+    return {
+        url,
+        // Same URL on mobile and desktop must still be crawled twice
+        uniqueKey: `${url}#${targeting.device}`,
+        userData: { keyword, targeting, engine: adapter.name, page },
+    };
+}
+
+function buildAcceptLanguage(targeting: ResolvedSerpTargeting): string {
+    const { language, country } = targeting;
+    return `${language}-${country.toUpperCase()},${language};q=0.9`;
+}
 
-            return results;
+/**
+ * Emulate a mobile device on an existing page through CDP (device descriptors only apply per context)
+ */
+async function emulateMobile(page: Page, targeting: ResolvedSerpTargeting): Promise<void> {
+    const { viewport, userAgent, deviceScaleFactor } = MOBILE_DEVICE;
+    const cdp = await page.context().newCDPSession(page);
+
+    await cdp.send('Emulation.setDeviceMetricsOverride', {
+        width: viewport.width,
+        height: viewport.height,
+        deviceScaleFactor,
+        mobile: true,
+    });
+    await cdp.send('Emulation.setTouchEmulationEnabled', { enabled: true, maxTouchPoints: 5 });
+    await cdp.send('Emulation.setUserAgentOverride', {
+        userAgent,
+        acceptLanguage: buildAcceptLanguage(targeting),
+        platform: 'Linux armv8l',
+        userAgentMetadata: {
+            platform: 'Android',
+            platformVersion: '14',
+            architecture: '',
+            model: 'Pixel 7',
+            mobile: true,
         },
-        { keyword, maxResults },
-    );
+    });
+}
+
+/**
+ * Merge a page's feature summary into the keyword's running summary
+ */
+function mergeFeatureSummary(target: SerpFeatureSummary, source: ParsedSerpPage['summary']): void {
+    const union = <T>(a: T[], b: T[]): T[] => Array.from(new Set([...a, ...b]));
+
+    target.features = union(target.features, source.features);
+    target.peopleAlsoAsk = union(target.peopleAlsoAsk, source.peopleAlsoAsk);
+    target.relatedSearches = union(target.relatedSearches, source.relatedSearches);
+    target.knowledgePanel = target.knowledgePanel ?? source.knowledgePanel;
 }
 
 export default runSerpCrawler;
\ No newline at end of file
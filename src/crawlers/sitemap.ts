@@ -0,0 +1,78 @@
+import { load } from 'cheerio';
+import { gunzipSync } from 'zlib';
+
+// Upper bound on sitemap files fetched per site, so huge sitemap indexes stay cheap
+const MAX_SITEMAP_FILES = 50;
+const SITEMAP_TIMEOUT_MS = 15000;
+
+export interface SitemapOptions {
+    /** Stop once this many page URLs have been accepted */
+    limit: number;
+    /** Page URLs for which this returns false are skipped */
+    accept?: (url: string) => boolean;
+}
+
+/**
+ * Collects page URLs from a site's /sitemap.xml, following sitemap indexes.
+ * A missing or unreadable sitemap yields no URLs rather than failing the crawl.
+ */
+export async function fetchSitemapUrls(origin: string, options: SitemapOptions): Promise<string[]> {
+    const { limit, accept = () => true } = options;
+
+    const pending = [new URL('/sitemap.xml', origin).href];
+    const fetched = new Set<string>();
+    const pageUrls = new Set<string>();
+
+    while (pending.length > 0 && fetched.size < MAX_SITEMAP_FILES && pageUrls.size < limit) {
+        const sitemapUrl = pending.shift()!;
+        if (fetched.has(sitemapUrl)) continue;
+        fetched.add(sitemapUrl);
+
+        const xml = await fetchSitemap(sitemapUrl);
+        if (!xml) continue;
+
+        const { sitemaps, pages } = parseSitemap(xml);
+        pending.push(...sitemaps);
+
+        for (const url of pages) {
+            if (pageUrls.size >= limit) break;
+            if (accept(url)) pageUrls.add(url);
+        }
+    }
+
+    return Array.from(pageUrls);
+}
+
+/**
+ * Splits a sitemap document into nested sitemap URLs (from an index) and page URLs
+ */
+export function parseSitemap(xml: string): { sitemaps: string[]; pages: string[] } {
+    const $ = load(xml, { xmlMode: true });
+    const locs = (selector: string) => $(selector)
+        .map((_, el) => $(el).text().trim())
+        .get()
+        .filter(Boolean);
+
+    return {
+        sitemaps: locs('sitemapindex > sitemap > loc'),
+        pages: locs('urlset > url > loc'),
+    };
+}
+
+async function fetchSitemap(url: string): Promise<string | null> {
+    try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(SITEMAP_TIMEOUT_MS) });
+        if (!response.ok) {
+            console.warn(`Sitemap not available (HTTP ${response.status}): ${url}`);
+            return null;
+        }
+
+        // .xml.gz sitemaps are served as gzip files rather than with Content-Encoding
+        const body = Buffer.from(await response.arrayBuffer());
+        const isGzip = body[0] === 0x1f && body[1] === 0x8b;
+        return (isGzip ? gunzipSync(body) : body).toString('utf8');
+    } catch (e) {
+        console.warn(`Failed to fetch sitemap ${url}:`, e);
+        return null;
+    }
+}
@@ -0,0 +1,111 @@
+import type { Page } from 'playwright';
+import type { WatchTarget, WatchRule, WatchedValue } from '../types/index.js';
+
+// Rules per watch target
+export const MAX_WATCH_RULES = 50;
+
+/**
+ * Rules of every target matching the page URL; when two targets use the same name, the first wins
+ */
+export function selectWatchRules(targets: WatchTarget[] = [], url: string): WatchRule[] {
+    const pageUrl = normalizeUrl(url);
+    const rules = new Map<string, WatchRule>();
+
+    for (const target of targets) {
+        const matches = target.url !== undefined
+            ? normalizeUrl(target.url) === pageUrl
+            : new RegExp(target.urlPattern!).test(url);
+        if (!matches) continue;
+
+        for (const rule of target.rules) {
+            if (!rules.has(rule.name)) rules.set(rule.name, rule);
+        }
+    }
+
+    return Array.from(rules.values());
+}
+
+/**
+ * Evaluates the rules against the loaded page. Each rule reads the first element it matches.
+ */
+export async function extractWatchedValues(page: Page, rules: WatchRule[]): Promise<WatchedValue[]> {
+    const reads = await page.evaluate((rules) => {
+        return rules.map(({ selector, xpath, attribute }) => {
+            try {
+                const node = xpath
+                    ? document.evaluate(xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue
+                    : document.querySelector(selector!);
+                if (!node) return { raw: null };
+
+                const text = attribute
+                    ? (node as Element).getAttribute?.(attribute) ?? null
+                    : node.textContent;
+                return { raw: text === null ? null : text.replace(/\s+/g, ' ').trim() };
+            } catch (e) {
+                return { raw: null, error: e instanceof Error ? e.message : String(e) };
+            }
+        });
+    }, rules.map(({ selector, xpath, attribute }) => ({ selector, xpath, attribute })));
+
+    return rules.map((rule, i) => {
+        const { raw, error } = reads[i] as { raw: string | null; error?: string };
+        const type = rule.type ?? 'text';
+
+        return {
+            name: rule.name,
+            type,
+            value: raw === null ? null : toWatchedValue(raw, rule),
+            raw,
+            ...(rule.minChangePercent !== undefined ? { minChangePercent: rule.minChangePercent } : {}),
+            ...(rule.minChange !== undefined ? { minChange: rule.minChange } : {}),
+            ...(error ? { error } : {}),
+        };
+    });
+}
+
+function toWatchedValue(raw: string, rule: WatchRule): string | number | null {
+    let text: string | null = raw;
+    if (rule.pattern) {
+        const match = raw.match(new RegExp(rule.pattern));
+        text = match ? (match[1] ?? match[0]) : null;
+    }
+    if (text === null) return null;
+
+    return rule.type === 'number' ? parseLocalizedNumber(text) : text;
+}
+
+/**
+ * Reads the first number in the text. A separator followed by exactly three digits is taken as a
+ * thousands separator, unless the other separator also appears, so "1,299.00", "1.299,00" and
+ * "1 299" all parse as 1299, while "12,5" parses as 12.5.
+ */
+function parseLocalizedNumber(text: string): number | null {
+    const match = text.match(/-?\d+(?:[.,\s']\d+)*/);
+    if (!match) return null;
+
+    let digits = match[0].replace(/[\s']/g, '');
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    if (lastDot !== -1 && lastComma !== -1) {
+        const decimal = lastDot > lastComma ? '.' : ',';
+        const thousands = decimal === '.' ? ',' : '.';
+        digits = digits.split(thousands).join('').replace(decimal, '.');
+    } else if (lastDot !== -1 || lastComma !== -1) {
+        const separator = lastDot !== -1 ? '.' : ',';
+        const groups = digits.split(separator);
+        const isThousands = groups.length > 2 || groups[groups.length - 1].length === 3;
+        digits = isThousands ? groups.join('') : groups.join('.');
+    }
+
+    const value = Number(digits);
+    return Number.isFinite(value) ? value : null;
+}
+
+function normalizeUrl(url: string): string {
+    try {
+        return new URL(url).href;
+    } catch {
+        return url;
+    }
+}
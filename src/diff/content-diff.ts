@@ -0,0 +1,373 @@
+import type {
+    PageContent,
+    ContentChange,
+    SeoMetadata,
+    SeoField,
+    SeoFieldChange,
+    ChangeImportance,
+    ChangeSeverity,
+    HeadingLevel,
+    HeadingDiff,
+    ParagraphChange,
+    CountChange,
+    VisualChange,
+} from '../types/index.js';
+import { diffPerformance, hasPerformanceChange, describePerformanceChange } from './performance-diff.js';
+import { hasVisualChange, describeVisualChange, VISUAL_CHANGE_THRESHOLD_PERCENT } from './visual-diff.js';
+import { diffWatchedValues, hasWatchedChange, describeWatchedChange } from './watch-diff.js';
+
+// How much a change to each SEO field matters when reporting competitor changes
+const SEO_FIELD_IMPORTANCE: Record<SeoField, ChangeImportance> = {
+    title: 'high',
+    canonical: 'high',
+    robotsMeta: 'high',
+    xRobotsTag: 'high',
+    statusCode: 'high',
+    finalUrl: 'high',
+    metaDescription: 'medium',
+    hreflang: 'medium',
+    structuredDataTypes: 'medium',
+    redirectChain: 'medium',
+    language: 'medium',
+    openGraph: 'low',
+    twitter: 'low',
+    imagesWithoutAlt: 'low',
+};
+
+const IMPORTANCE_ORDER: ChangeImportance[] = ['high', 'medium', 'low'];
+
+const HEADING_LEVELS: HeadingLevel[] = ['h1', 'h2', 'h3'];
+
+// Paragraphs sharing at least this share of words are reported as modified rather than replaced
+const MODIFIED_PARAGRAPH_SIMILARITY = 0.3;
+
+// Severity points (0-100 overall); each kind of change is capped so one noisy signal can't dominate
+const SEVERITY_POINTS = {
+    perH1Change: 15,
+    maxH1: 30,
+    perSubheadingChange: 4,
+    maxSubheadings: 20,
+    maxText: 25,
+    maxWordCount: 10,
+    maxStructure: 10,
+    seo: { high: 15, medium: 6, low: 2 } as Record<ChangeImportance, number>,
+    maxSeo: 30,
+    perPerformanceChange: 5,
+    maxPerformance: 10,
+    // A quarter of the page changing visually scores the maximum
+    maxVisual: 15,
+    perWatchedChange: 10,
+    maxWatched: 30,
+};
+
+type ChangeDetails = Omit<ContentChange, 'severityScore' | 'severity' | 'summary'>;
+
+/**
+ * Builds a structured diff between two snapshots of the same page. Screenshot diffs are
+ * computed by the caller, since the images are not part of the snapshot.
+ */
+export function detectChanges(
+    previous: PageContent | null | undefined,
+    current: PageContent,
+    visual: VisualChange[] = [],
+): ContentChange {
+    if (!previous) {
+        return { ...diffSnapshots(current, current, []), summary: 'First snapshot; nothing to compare yet.' };
+    }
+    return diffSnapshots(previous, current, visual);
+}
+
+export function hasAnyChange(changes: ContentChange): boolean {
+    return changes.headingsChanged ||
+        changes.contentChanged ||
+        changes.wordCountDiff !== 0 ||
+        changes.structureChanged ||
+        changes.seoChanges.length > 0 ||
+        hasPerformanceChange(changes.performance) ||
+        hasVisualChange(changes.visual) ||
+        hasWatchedChange(changes.watched);
+}
+
+function diffSnapshots(previous: PageContent, current: PageContent, visual: VisualChange[]): ContentChange {
+    const internalLinks = countChange(previous.internalLinks, current.internalLinks);
+    const images = countChange(previous.images, current.images);
+
+    const details: ChangeDetails = {
+        headingsChanged:
+            JSON.stringify([previous.h1, previous.h2, previous.h3]) !==
+            JSON.stringify([current.h1, current.h2, current.h3]),
+        contentChanged: previous.contentHash !== current.contentHash,
+        wordCountDiff: current.wordCount - previous.wordCount,
+        structureChanged: images.diff !== 0 || Math.abs(internalLinks.diff) > 5,
+        seoChanges: detectSeoChanges(previous.seo, current.seo),
+        headings: Object.fromEntries(
+            HEADING_LEVELS.map(level => [level, diffHeadings(previous[level], current[level])]),
+        ) as Record<HeadingLevel, HeadingDiff>,
+        paragraphs: diffParagraphs(previous.paragraphs, current.paragraphs),
+        internalLinks,
+        externalLinks: countChange(previous.externalLinks, current.externalLinks),
+        images,
+        performance: diffPerformance(previous.performance, current.performance),
+        visual,
+        watched: diffWatchedValues(previous.watched, current.watched),
+    };
+
+    const severityScore = scoreSeverity(details, previous);
+    const severity = toSeverity(severityScore);
+
+    return {
+        ...details,
+        severityScore,
+        severity,
+        summary: summarizeChanges(details, severity, severityScore),
+    };
+}
+
+/**
+ * Compare SEO fields between snapshots. Snapshots taken before SEO capture have no `seo` block.
+ */
+function detectSeoChanges(previous: SeoMetadata | undefined, current: SeoMetadata): SeoFieldChange[] {
+    if (!previous) return [];
+
+    return (Object.keys(SEO_FIELD_IMPORTANCE) as SeoField[])
+        .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(current[field]))
+        .map(field => ({
+            field,
+            importance: SEO_FIELD_IMPORTANCE[field],
+            previous: previous[field],
+            current: current[field],
+        }))
+        .sort((a, b) => IMPORTANCE_ORDER.indexOf(a.importance) - IMPORTANCE_ORDER.indexOf(b.importance));
+}
+
+function diffHeadings(previous: string[], current: string[]): HeadingDiff {
+    const previousSet = new Set(previous);
+    const currentSet = new Set(current);
+
+    // Headings on both sides that fall outside the longest common order were moved
+    const keptPrevious = previous.filter(h => currentSet.has(h));
+    const keptCurrent = current.filter(h => previousSet.has(h));
+    const inOrder = new Set(longestCommonSubsequence(keptPrevious, keptCurrent).map(([i]) => keptPrevious[i]));
+
+    return {
+        added: unique(current.filter(h => !previousSet.has(h))),
+        removed: unique(previous.filter(h => !currentSet.has(h))),
+        reordered: unique(keptCurrent.filter(h => !inOrder.has(h))),
+    };
+}
+
+/**
+ * Aligns unchanged paragraphs, then pairs up what lies between them as modified, added or removed
+ */
+function diffParagraphs(previous: string[], current: string[]): ParagraphChange[] {
+    const anchors = longestCommonSubsequence(previous, current);
+    anchors.push([previous.length, current.length]);
+
+    const changes: ParagraphChange[] = [];
+    let i = 0;
+    let j = 0;
+    for (const [nextI, nextJ] of anchors) {
+        const removed = previous.slice(i, nextI);
+        const added = current.slice(j, nextJ);
+
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const before = removed[k];
+            const after = added[k];
+
+            if (before !== undefined && after !== undefined && wordSimilarity(before, after) >= MODIFIED_PARAGRAPH_SIMILARITY) {
+                const beforeSentences = new Set(splitSentences(before));
+                const afterSentences = new Set(splitSentences(after));
+                changes.push({
+                    type: 'modified',
+                    previous: before,
+                    current: after,
+                    addedSentences: [...afterSentences].filter(s => !beforeSentences.has(s)),
+                    removedSentences: [...beforeSentences].filter(s => !afterSentences.has(s)),
+                });
+                continue;
+            }
+            if (before !== undefined) {
+                changes.push({ type: 'removed', previous: before, addedSentences: [], removedSentences: splitSentences(before) });
+            }
+            if (after !== undefined) {
+                changes.push({ type: 'added', current: after, addedSentences: splitSentences(after), removedSentences: [] });
+            }
+        }
+
+        i = nextI + 1;
+        j = nextJ + 1;
+    }
+
+    return changes;
+}
+
+function scoreSeverity(details: ChangeDetails, previous: PageContent): number {
+    const { headings, paragraphs, seoChanges } = details;
+
+    const h1Changes = headings.h1.added.length + headings.h1.removed.length;
+    const subheadingChanges = (['h2', 'h3'] as const).reduce((sum, level) =>
+        sum + headings[level].added.length + headings[level].removed.length + headings[level].reordered.length, 0);
+
+    const sentenceChanges = paragraphs.reduce((sum, p) => sum + p.addedSentences.length + p.removedSentences.length, 0);
+    const previousSentences = previous.paragraphs.reduce((sum, p) => sum + splitSentences(p).length, 0);
+
+    const relative = (change: CountChange) => Math.abs(change.diff) / Math.max(change.previous, 1);
+
+    const points = [
+        Math.min(h1Changes * SEVERITY_POINTS.perH1Change, SEVERITY_POINTS.maxH1),
+        Math.min(subheadingChanges * SEVERITY_POINTS.perSubheadingChange, SEVERITY_POINTS.maxSubheadings),
+        Math.min(sentenceChanges / Math.max(previousSentences, 1), 1) * SEVERITY_POINTS.maxText,
+        // A 50% swing in word count scores the maximum
+        Math.min(Math.abs(details.wordCountDiff) / Math.max(previous.wordCount, 1) * 2, 1) * SEVERITY_POINTS.maxWordCount,
+        Math.min(relative(details.internalLinks) + relative(details.externalLinks) + relative(details.images), 1) *
+            SEVERITY_POINTS.maxStructure,
+        Math.min(seoChanges.reduce((sum, c) => sum + SEVERITY_POINTS.seo[c.importance], 0), SEVERITY_POINTS.maxSeo),
+        Math.min(
+            [details.performance?.speed, details.performance?.weight]
+                .filter(value => value !== undefined && value !== 'unchanged').length * SEVERITY_POINTS.perPerformanceChange,
+            SEVERITY_POINTS.maxPerformance,
+        ),
+        Math.min(
+            Math.max(0, ...details.visual
+                .filter(change => change.changedPercent >= VISUAL_CHANGE_THRESHOLD_PERCENT)
+                .map(change => change.changedPercent)) / 25,
+            1,
+        ) * SEVERITY_POINTS.maxVisual,
+        Math.min(
+            details.watched.filter(change => change.significant).length * SEVERITY_POINTS.perWatchedChange,
+            SEVERITY_POINTS.maxWatched,
+        ),
+    ];
+
+    return Math.min(Math.round(points.reduce((sum, p) => sum + p, 0)), 100);
+}
+
+function toSeverity(score: number): ChangeSeverity {
+    if (score === 0) return 'none';
+    if (score < 15) return 'minor';
+    if (score < 40) return 'moderate';
+    return 'major';
+}
+
+/**
+ * e.g. 'Moderate change (34/100): H1 changed from "A" to "B"; 3 sentences added, 1 removed; word count +120'
+ */
+function summarizeChanges(details: ChangeDetails, severity: ChangeSeverity, score: number): string {
+    const parts: string[] = [];
+
+    // Watched values are what the caller asked about, so they lead the summary
+    const watched = describeWatchedChange(details.watched);
+    if (watched) parts.push(watched);
+
+    const seoFields = details.seoChanges.filter(c => c.importance !== 'low').map(c => c.field);
+    if (seoFields.length > 0) parts.push(`SEO: ${seoFields.join(', ')} changed`);
+
+    const h1 = details.headings.h1;
+    if (h1.added.length === 1 && h1.removed.length === 1) {
+        parts.push(`H1 changed from "${h1.removed[0]}" to "${h1.added[0]}"`);
+    } else {
+        const h1Counts = describeCounts(h1, 'H1');
+        if (h1Counts) parts.push(h1Counts);
+    }
+    for (const level of ['h2', 'h3'] as const) {
+        const counts = describeCounts(details.headings[level], `${level.toUpperCase()}s`);
+        if (counts) parts.push(counts);
+    }
+
+    const added = details.paragraphs.reduce((sum, p) => sum + p.addedSentences.length, 0);
+    const removed = details.paragraphs.reduce((sum, p) => sum + p.removedSentences.length, 0);
+    if (added > 0 || removed > 0) {
+        parts.push(`${added} ${added === 1 ? 'sentence' : 'sentences'} added, ${removed} removed`);
+    }
+
+    if (details.wordCountDiff !== 0) {
+        parts.push(`word count ${details.wordCountDiff > 0 ? '+' : ''}${details.wordCountDiff}`);
+    }
+
+    const counts: Array<[string, CountChange]> = [
+        ['internal links', details.internalLinks],
+        ['external links', details.externalLinks],
+        ['images', details.images],
+    ];
+    for (const [label, change] of counts) {
+        if (change.diff !== 0) parts.push(`${label} ${change.previous} → ${change.current}`);
+    }
+
+    const performance = describePerformanceChange(details.performance);
+    if (performance) parts.push(performance);
+
+    const visual = describeVisualChange(details.visual);
+    if (visual) parts.push(visual);
+
+    if (parts.length === 0) {
+        return severity === 'none' ? 'No changes detected.' : `Minor change (${score}/100).`;
+    }
+
+    const label = severity.charAt(0).toUpperCase() + severity.slice(1);
+    return `${label} change (${score}/100): ${parts.join('; ')}.`;
+}
+
+function describeCounts(diff: HeadingDiff, label: string): string | null {
+    const counts = [
+        diff.added.length ? `${diff.added.length} added` : '',
+        diff.removed.length ? `${diff.removed.length} removed` : '',
+        diff.reordered.length ? `${diff.reordered.length} reordered` : '',
+    ].filter(Boolean);
+
+    return counts.length > 0 ? `${label} ${counts.join(', ')}` : null;
+}
+
+function countChange(previous: number, current: number): CountChange {
+    return { previous, current, diff: current - previous };
+}
+
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+/)
+        .map(s => s.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Jaccard similarity of the two texts' lowercase word sets
+ */
+function wordSimilarity(a: string, b: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+    const wordsA = words(a);
+    const wordsB = words(b);
+    const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+    const total = new Set([...wordsA, ...wordsB]).size;
+    return total === 0 ? 1 : shared / total;
+}
+
+/**
+ * Index pairs [i, j] of a longest common subsequence of a and b, in order
+ */
+function longestCommonSubsequence<T>(a: T[], b: T[]): Array<[number, number]> {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pairs.push([i++, j++]);
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+function unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+}
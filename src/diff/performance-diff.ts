@@ -0,0 +1,159 @@
+import type {
+    PerformanceMetrics,
+    PerformanceMetricName,
+    PerformanceChange,
+    MetricChange,
+} from '../types/index.js';
+
+interface NoiseThreshold {
+    relative: number;
+    absolute: number;
+}
+
+// Lab runs vary from load to load, so a change only counts when it beats both thresholds
+const NOISE_THRESHOLDS: Record<PerformanceMetricName, NoiseThreshold> = {
+    ttfb: { relative: 0.2, absolute: 200 },
+    fcp: { relative: 0.2, absolute: 200 },
+    lcp: { relative: 0.2, absolute: 200 },
+    cls: { relative: 0.2, absolute: 0.05 },
+    totalBlockingTime: { relative: 0.2, absolute: 100 },
+    domElements: { relative: 0.1, absolute: 100 },
+    requestCount: { relative: 0.1, absolute: 5 },
+    transferSize: { relative: 0.1, absolute: 20_000 },
+    jsSize: { relative: 0.1, absolute: 20_000 },
+    cssSize: { relative: 0.1, absolute: 10_000 },
+    imageSize: { relative: 0.1, absolute: 20_000 },
+    fontSize: { relative: 0.1, absolute: 10_000 },
+    thirdPartyDomains: { relative: 0, absolute: 1 },
+};
+
+const SPEED_METRICS: PerformanceMetricName[] = ['ttfb', 'fcp', 'lcp', 'cls', 'totalBlockingTime'];
+
+const METRIC_LABELS: Partial<Record<PerformanceMetricName, string>> = {
+    ttfb: 'TTFB',
+    fcp: 'FCP',
+    lcp: 'LCP',
+    cls: 'CLS',
+    totalBlockingTime: 'TBT',
+};
+
+/**
+ * Compares lab metrics between snapshots. Snapshots taken before performance capture have none.
+ */
+export function diffPerformance(
+    previous: PerformanceMetrics | undefined,
+    current: PerformanceMetrics,
+): PerformanceChange | null {
+    if (!previous) return null;
+
+    const before = toMetricValues(previous);
+    const after = toMetricValues(current);
+
+    const metrics: MetricChange[] = (Object.keys(NOISE_THRESHOLDS) as PerformanceMetricName[]).map(metric => ({
+        metric,
+        previous: before[metric],
+        current: after[metric],
+        direction: compareMetric(before[metric], after[metric], NOISE_THRESHOLDS[metric]),
+    }));
+
+    const speedDirections = metrics
+        .filter(m => SPEED_METRICS.includes(m.metric) && m.direction !== 'unchanged')
+        .map(m => m.direction);
+    const speed: PerformanceChange['speed'] =
+        speedDirections.length === 0 ? 'unchanged'
+            : speedDirections.every(d => d === 'improved') ? 'faster'
+                : speedDirections.every(d => d === 'regressed') ? 'slower'
+                    : 'mixed';
+
+    const weightDirection = metrics.find(m => m.metric === 'transferSize')!.direction;
+    const weight: PerformanceChange['weight'] =
+        weightDirection === 'regressed' ? 'heavier' : weightDirection === 'improved' ? 'lighter' : 'unchanged';
+
+    const previousDomains = new Set(previous.thirdPartyDomains.map(d => d.domain));
+    const currentDomains = new Set(current.thirdPartyDomains.map(d => d.domain));
+
+    return {
+        speed,
+        weight,
+        metrics,
+        thirdPartyDomainsAdded: [...currentDomains].filter(d => !previousDomains.has(d)),
+        thirdPartyDomainsRemoved: [...previousDomains].filter(d => !currentDomains.has(d)),
+    };
+}
+
+export function hasPerformanceChange(change: PerformanceChange | null): boolean {
+    return change !== null && (
+        change.speed !== 'unchanged' ||
+        change.weight !== 'unchanged' ||
+        change.thirdPartyDomainsAdded.length > 0
+    );
+}
+
+/**
+ * e.g. 'slower: LCP 1800 ms → 2600 ms; heavier: 1.2 MB → 1.6 MB', or null when nothing moved beyond noise
+ */
+export function describePerformanceChange(change: PerformanceChange | null): string | null {
+    if (!change) return null;
+
+    const parts: string[] = [];
+
+    if (change.speed !== 'unchanged') {
+        const timings = change.metrics
+            .filter(m => SPEED_METRICS.includes(m.metric) && m.direction !== 'unchanged')
+            .map(m => `${METRIC_LABELS[m.metric]} ${formatMetric(m.metric, m.previous)} → ${formatMetric(m.metric, m.current)}`);
+        parts.push(`${change.speed === 'mixed' ? 'speed mixed' : change.speed}: ${timings.join(', ')}`);
+    }
+
+    if (change.weight !== 'unchanged') {
+        const total = change.metrics.find(m => m.metric === 'transferSize')!;
+        parts.push(`${change.weight}: ${formatBytes(total.previous ?? 0)} → ${formatBytes(total.current ?? 0)}`);
+    }
+
+    if (change.thirdPartyDomainsAdded.length > 0) {
+        parts.push(`new third parties: ${change.thirdPartyDomainsAdded.join(', ')}`);
+    }
+
+    return parts.length > 0 ? parts.join('; ') : null;
+}
+
+function toMetricValues(metrics: PerformanceMetrics): Record<PerformanceMetricName, number | null> {
+    return {
+        ttfb: metrics.ttfb,
+        fcp: metrics.fcp,
+        lcp: metrics.lcp,
+        cls: metrics.cls,
+        totalBlockingTime: metrics.totalBlockingTime,
+        domElements: metrics.domElements,
+        requestCount: metrics.requestCount,
+        transferSize: metrics.transferSize,
+        jsSize: metrics.byType.js.transferSize,
+        cssSize: metrics.byType.css.transferSize,
+        imageSize: metrics.byType.image.transferSize,
+        fontSize: metrics.byType.font.transferSize,
+        thirdPartyDomains: metrics.thirdPartyDomains.length,
+    };
+}
+
+function compareMetric(
+    previous: number | null,
+    current: number | null,
+    { relative, absolute }: NoiseThreshold,
+): MetricChange['direction'] {
+    if (previous === null || current === null) return 'unchanged';
+
+    const diff = current - previous;
+    if (Math.abs(diff) < absolute || Math.abs(diff) < Math.abs(previous) * relative) return 'unchanged';
+
+    return diff < 0 ? 'improved' : 'regressed';
+}
+
+function formatMetric(metric: PerformanceMetricName, value: number | null): string {
+    if (value === null) return 'n/a';
+    return metric === 'cls' ? String(value) : `${value} ms`;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+    if (bytes >= 1_000) return `${Math.round(bytes / 1_000)} KB`;
+    return `${bytes} B`;
+}
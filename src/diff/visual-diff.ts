@@ -0,0 +1,87 @@
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import type { VisualChange, ScreenshotViewport } from '../types/index.js';
+
+// Screenshots differing in less than this share of pixels (dynamic widgets, carousels) count as unchanged
+export const VISUAL_CHANGE_THRESHOLD_PERCENT = 1;
+
+// Per-pixel colour tolerance (0-1); anti-aliasing differences are ignored separately
+const PIXEL_THRESHOLD = 0.1;
+
+const DIFF_COLOR: [number, number, number] = [255, 0, 0];
+
+export interface ScreenshotDiff {
+    change: VisualChange;
+    /** PNG of the current screenshot, faded, with changed pixels in red */
+    diffImage: Buffer;
+}
+
+/**
+ * Pixel diff of two PNG screenshots. When the page height changed, the area only one
+ * of the screenshots covers counts as changed.
+ */
+export function diffScreenshots(viewport: ScreenshotViewport, previous: Buffer, current: Buffer): ScreenshotDiff {
+    const before = PNG.sync.read(previous);
+    const after = PNG.sync.read(current);
+
+    const width = Math.max(before.width, after.width);
+    const height = Math.max(before.height, after.height);
+    const overlapWidth = Math.min(before.width, after.width);
+    const overlapHeight = Math.min(before.height, after.height);
+
+    const overlapDiff = new PNG({ width: overlapWidth, height: overlapHeight });
+    const mismatched = pixelmatch(
+        crop(before, overlapWidth, overlapHeight).data,
+        crop(after, overlapWidth, overlapHeight).data,
+        overlapDiff.data,
+        overlapWidth,
+        overlapHeight,
+        { threshold: PIXEL_THRESHOLD, diffColor: DIFF_COLOR },
+    );
+
+    // Outside the overlap everything is marked as changed
+    const diff = new PNG({ width, height });
+    const [red, green, blue] = DIFF_COLOR;
+    for (let i = 0; i < diff.data.length; i += 4) {
+        diff.data[i] = red;
+        diff.data[i + 1] = green;
+        diff.data[i + 2] = blue;
+        diff.data[i + 3] = 255;
+    }
+    PNG.bitblt(overlapDiff, diff, 0, 0, overlapWidth, overlapHeight, 0, 0);
+
+    const totalPixels = width * height;
+    const changedPixels = mismatched + (totalPixels - overlapWidth * overlapHeight);
+
+    return {
+        change: {
+            viewport,
+            changedPixels,
+            totalPixels,
+            changedPercent: Math.round((changedPixels / totalPixels) * 10000) / 100,
+        },
+        diffImage: PNG.sync.write(diff),
+    };
+}
+
+export function hasVisualChange(changes: VisualChange[]): boolean {
+    return changes.some(change => change.changedPercent >= VISUAL_CHANGE_THRESHOLD_PERCENT);
+}
+
+/**
+ * e.g. 'layout changed: desktop 12.5%, mobile 3.1%', or null when no viewport changed beyond the threshold
+ */
+export function describeVisualChange(changes: VisualChange[]): string | null {
+    const changed = changes.filter(change => change.changedPercent >= VISUAL_CHANGE_THRESHOLD_PERCENT);
+    if (changed.length === 0) return null;
+
+    return `layout changed: ${changed.map(change => `${change.viewport} ${change.changedPercent}%`).join(', ')}`;
+}
+
+function crop(image: PNG, width: number, height: number): PNG {
+    if (image.width === width && image.height === height) return image;
+
+    const cropped = new PNG({ width, height });
+    PNG.bitblt(image, cropped, 0, 0, width, height, 0, 0);
+    return cropped;
+}
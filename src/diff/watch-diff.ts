@@ -0,0 +1,90 @@
+import type { WatchedValue, WatchedValueChange } from '../types/index.js';
+
+/**
+ * Compares watched values by name. Values the current snapshot no longer watches are ignored;
+ * values the previous snapshot did not watch yet are reported as 'new-rule'.
+ */
+export function diffWatchedValues(previous: WatchedValue[] = [], current: WatchedValue[] = []): WatchedValueChange[] {
+    const before = new Map(previous.map(value => [value.name, value]));
+    const changes: WatchedValueChange[] = [];
+
+    for (const after of current) {
+        const old = before.get(after.name);
+        if (!old) {
+            changes.push({ name: after.name, kind: 'new-rule', previous: null, current: after.value, changePercent: null, significant: false });
+            continue;
+        }
+        if (old.value === after.value) continue;
+
+        if (old.value === null || after.value === null) {
+            changes.push({
+                name: after.name,
+                kind: old.value === null ? 'appeared' : 'disappeared',
+                previous: old.value,
+                current: after.value,
+                changePercent: null,
+                significant: true,
+            });
+            continue;
+        }
+
+        let changePercent: number | null = null;
+        let significant = true;
+        if (typeof old.value === 'number' && typeof after.value === 'number') {
+            changePercent = old.value !== 0
+                ? Math.round((after.value - old.value) / Math.abs(old.value) * 10000) / 100
+                : null;
+            significant = beatsThresholds(old.value, after.value, changePercent, after);
+        }
+
+        changes.push({ name: after.name, kind: 'changed', previous: old.value, current: after.value, changePercent, significant });
+    }
+
+    return changes;
+}
+
+/**
+ * Any differing value counts, significant or not, so a new version records it as the baseline
+ */
+export function hasWatchedChange(changes: WatchedValueChange[]): boolean {
+    return changes.length > 0;
+}
+
+/**
+ * e.g. 'watched: price 49 → 59 (+20.41%), cta "Start trial" → "Book a demo"; below threshold: seats 10 → 11'
+ */
+export function describeWatchedChange(changes: WatchedValueChange[]): string | null {
+    const describe = (change: WatchedValueChange) => {
+        const percent = change.changePercent !== null
+            ? ` (${change.changePercent > 0 ? '+' : ''}${change.changePercent}%)`
+            : '';
+        return `${change.name} ${formatValue(change.previous)} → ${formatValue(change.current)}${percent}`;
+    };
+
+    const parts: string[] = [];
+    const significant = changes.filter(change => change.significant);
+    const minor = changes.filter(change => !change.significant && change.kind === 'changed');
+    const added = changes.filter(change => change.kind === 'new-rule');
+
+    if (significant.length > 0) parts.push(`watched: ${significant.map(describe).join(', ')}`);
+    if (minor.length > 0) parts.push(`below threshold: ${minor.map(describe).join(', ')}`);
+    if (added.length > 0) parts.push(`now watching: ${added.map(change => change.name).join(', ')}`);
+
+    return parts.length > 0 ? parts.join('; ') : null;
+}
+
+/**
+ * A number move counts when it reaches each threshold the rule sets; without thresholds any move counts
+ */
+function beatsThresholds(previous: number, current: number, changePercent: number | null, rule: WatchedValue): boolean {
+    const diff = Math.abs(current - previous);
+    if (rule.minChange !== undefined && diff < rule.minChange) return false;
+    // A move away from 0 has no percentage and always counts
+    if (rule.minChangePercent !== undefined && changePercent !== null && Math.abs(changePercent) < rule.minChangePercent) return false;
+    return true;
+}
+
+function formatValue(value: string | number | null): string {
+    if (value === null) return 'missing';
+    return typeof value === 'number' ? String(value) : `"${value}"`;
+}
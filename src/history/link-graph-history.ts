@@ -0,0 +1,32 @@
+import { KeyValueStore } from 'crawlee';
+import crypto from 'crypto';
+import type { LinkGraph } from '../types/index.js';
+
+let graphStore: KeyValueStore | null = null;
+
+async function getGraphStore(): Promise<KeyValueStore> {
+    if (!graphStore) {
+        graphStore = await KeyValueStore.open('competitor-link-graphs');
+    }
+    return graphStore;
+}
+
+function createGraphKey(site: string): string {
+    return `graph-${crypto.createHash('md5').update(site).digest('hex')}`;
+}
+
+/**
+ * Stores a site's link graph, replacing the one from its previous crawl
+ */
+export async function saveLinkGraph(graph: LinkGraph): Promise<void> {
+    const store = await getGraphStore();
+    await store.setValue(createGraphKey(graph.site), graph);
+}
+
+/**
+ * Latest link graph of a site (an origin such as https://example.com), or null if none was built
+ */
+export async function getLinkGraph(site: string): Promise<LinkGraph | null> {
+    const store = await getGraphStore();
+    return store.getValue<LinkGraph>(createGraphKey(site));
+}
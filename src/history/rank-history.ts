@@ -0,0 +1,246 @@
+import { KeyValueStore } from 'crawlee';
+import crypto from 'crypto';
+import type {
+    SERPResult,
+    SearchEngine,
+    ResolvedSerpTargeting,
+    DomainRankHistory,
+    RankHistoryPoint,
+    UrlSwitch,
+    VisibilityScore,
+    KeywordVisibility,
+} from '../types/index.js';
+
+// Oldest runs are dropped beyond this to keep each series record bounded
+const MAX_RUNS_PER_SERIES = 1000;
+
+// Approximate organic CTR by position, used to weight visibility
+const CTR_BY_POSITION = [0.28, 0.15, 0.11, 0.08, 0.07, 0.05, 0.04, 0.03, 0.03, 0.02];
+const CTR_PAGE_TWO = 0.01;
+
+interface RankRun {
+    crawledAt: string;
+    results: Array<{ position: number; url: string }>;
+}
+
+interface RankSeries {
+    keyword: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+    runs: RankRun[];
+}
+
+export interface RankSeriesQuery {
+    keyword: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+}
+
+let historyStore: KeyValueStore | null = null;
+
+async function getHistoryStore(): Promise<KeyValueStore> {
+    if (!historyStore) {
+        historyStore = await KeyValueStore.open('serp-history');
+    }
+    return historyStore;
+}
+
+function describeScope(engine: SearchEngine, targeting: ResolvedSerpTargeting): string {
+    const { country, language, location = '', device } = targeting;
+    return JSON.stringify([engine, country, language, location, device]);
+}
+
+function createSeriesKey({ keyword, engine, targeting }: RankSeriesQuery): string {
+    return crypto.createHash('md5')
+        .update(`${describeScope(engine, targeting)}|${keyword.toLowerCase()}`)
+        .digest('hex');
+}
+
+/**
+ * Appends the organic rankings of a SERP run to each keyword's history series
+ */
+export async function recordSerpRun(results: SERPResult[]): Promise<void> {
+    const store = await getHistoryStore();
+    const runs = new Map<string, { query: RankSeriesQuery; run: RankRun }>();
+
+    for (const result of results) {
+        if (result.resultType !== 'organic') continue;
+
+        const query = { keyword: result.keyword, engine: result.engine, targeting: result.targeting };
+        const key = createSeriesKey(query);
+        let entry = runs.get(key);
+        if (!entry) {
+            entry = { query, run: { crawledAt: result.crawledAt, results: [] } };
+            runs.set(key, entry);
+        }
+        entry.run.results.push({ position: result.position, url: result.url });
+    }
+
+    for (const [key, { query, run }] of runs) {
+        const series = await store.getValue<RankSeries>(key) ?? { ...query, runs: [] };
+        series.runs.push(run);
+        if (series.runs.length > MAX_RUNS_PER_SERIES) {
+            series.runs = series.runs.slice(-MAX_RUNS_PER_SERIES);
+        }
+        await store.setValue(key, series);
+    }
+}
+
+/**
+ * Position history of a domain for one keyword, or null if the keyword has never been recorded
+ */
+export async function getDomainRankHistory(query: RankSeriesQuery, domain: string): Promise<DomainRankHistory | null> {
+    const store = await getHistoryStore();
+    const series = await store.getValue<RankSeries>(createSeriesKey(query));
+    if (!series) return null;
+
+    return buildDomainRankHistory(series, domain);
+}
+
+/**
+ * Rank history for every tracked domain, treating the given results as the newest run
+ */
+export async function getRunRankings(results: SERPResult[], domains: string[], persisted: boolean): Promise<DomainRankHistory[]> {
+    const store = await getHistoryStore();
+    const series = new Map<string, RankSeries>();
+
+    for (const result of results) {
+        if (result.resultType !== 'organic') continue;
+
+        const query = { keyword: result.keyword, engine: result.engine, targeting: result.targeting };
+        const key = createSeriesKey(query);
+        if (!series.has(key)) {
+            const stored = await store.getValue<RankSeries>(key) ?? { ...query, runs: [] };
+            // When the run was not persisted, append it in memory so deltas are still computed against history
+            if (!persisted) {
+                stored.runs.push({ crawledAt: result.crawledAt, results: [] });
+            }
+            series.set(key, stored);
+        }
+        if (!persisted) {
+            series.get(key)!.runs.at(-1)!.results.push({ position: result.position, url: result.url });
+        }
+    }
+
+    return Array.from(series.values()).flatMap(s => domains.map(domain => buildDomainRankHistory(s, domain)));
+}
+
+/**
+ * CTR-weighted visibility of a domain across a keyword set, based on each keyword's latest run.
+ * With no keywords, every recorded keyword for the engine and targeting is used.
+ */
+export async function getVisibilityScore(
+    domain: string,
+    engine: SearchEngine,
+    targeting: ResolvedSerpTargeting,
+    keywords?: string[],
+): Promise<VisibilityScore> {
+    const store = await getHistoryStore();
+    const seriesList: RankSeries[] = [];
+
+    if (keywords?.length) {
+        for (const keyword of keywords) {
+            const series = await store.getValue<RankSeries>(createSeriesKey({ keyword, engine, targeting }));
+            seriesList.push(series ?? { keyword, engine, targeting, runs: [] });
+        }
+    } else {
+        const scope = describeScope(engine, targeting);
+        await store.forEachKey(async (key) => {
+            const series = await store.getValue<RankSeries>(key);
+            if (series && describeScope(series.engine, series.targeting) === scope) {
+                seriesList.push(series);
+            }
+        });
+    }
+
+    const keywordScores: KeywordVisibility[] = seriesList.map(series => {
+        const latest = series.runs.at(-1);
+        const match = latest ? findDomainPosition(latest, domain) : null;
+        return {
+            keyword: series.keyword,
+            position: match?.position ?? null,
+            url: match?.url ?? null,
+            weight: match ? ctrForPosition(match.position) : 0,
+        };
+    });
+
+    const maxWeight = keywordScores.length * CTR_BY_POSITION[0];
+    const totalWeight = keywordScores.reduce((sum, k) => sum + k.weight, 0);
+
+    return {
+        domain: normalizeDomain(domain),
+        engine,
+        targeting,
+        score: maxWeight > 0 ? Math.round((totalWeight / maxWeight) * 10000) / 100 : 0,
+        totalKeywords: keywordScores.length,
+        rankedKeywords: keywordScores.filter(k => k.position !== null).length,
+        keywords: keywordScores,
+    };
+}
+
+function buildDomainRankHistory(series: RankSeries, domain: string): DomainRankHistory {
+    const history: RankHistoryPoint[] = series.runs.map(run => {
+        const match = findDomainPosition(run, domain);
+        return {
+            crawledAt: run.crawledAt,
+            position: match?.position ?? null,
+            url: match?.url ?? null,
+        };
+    });
+
+    const urlSwitches: UrlSwitch[] = [];
+    let lastUrl: string | null = null;
+    for (const point of history) {
+        if (!point.url) continue;
+        if (lastUrl && point.url !== lastUrl) {
+            urlSwitches.push({ crawledAt: point.crawledAt, fromUrl: lastUrl, toUrl: point.url });
+        }
+        lastUrl = point.url;
+    }
+
+    const ranked = history.map(p => p.position).filter((p): p is number => p !== null);
+    const currentPosition = history.at(-1)?.position ?? null;
+    const previousPosition = history.at(-2)?.position ?? null;
+
+    return {
+        keyword: series.keyword,
+        engine: series.engine,
+        targeting: series.targeting,
+        domain: normalizeDomain(domain),
+        history,
+        currentPosition,
+        previousPosition,
+        change: currentPosition !== null && previousPosition !== null ? previousPosition - currentPosition : null,
+        bestPosition: ranked.length ? Math.min(...ranked) : null,
+        worstPosition: ranked.length ? Math.max(...ranked) : null,
+        urlSwitches,
+    };
+}
+
+function findDomainPosition(run: RankRun, domain: string): { position: number; url: string } | null {
+    const target = normalizeDomain(domain);
+    let best: { position: number; url: string } | null = null;
+
+    for (const result of run.results) {
+        let host: string;
+        try {
+            host = normalizeDomain(new URL(result.url).hostname);
+        } catch {
+            continue;
+        }
+        if ((host === target || host.endsWith(`.${target}`)) && (!best || result.position < best.position)) {
+            best = result;
+        }
+    }
+
+    return best;
+}
+
+function normalizeDomain(domain: string): string {
+    return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '');
+}
+
+function ctrForPosition(position: number): number {
+    if (position <= CTR_BY_POSITION.length) return CTR_BY_POSITION[position - 1];
+    return position <= 20 ? CTR_PAGE_TWO : 0;
+}
@@ -0,0 +1,75 @@
+import { KeyValueStore } from 'crawlee';
+import crypto from 'crypto';
+import type { Review, ReviewSource, ReviewSourceType } from '../types/index.js';
+
+// Reviews kept per source, newest first; enough for trends and for incremental crawls to find known IDs
+const MAX_STORED_REVIEWS = 5000;
+
+export interface StoredSourceReviews {
+    source: ReviewSource;
+    reviews: Review[];
+    crawledAt: string;
+}
+
+export interface StoredReviewFilter {
+    /** Case-insensitive */
+    businessName?: string;
+    source?: ReviewSourceType;
+}
+
+let reviewStore: KeyValueStore | null = null;
+
+async function getReviewStore(): Promise<KeyValueStore> {
+    if (!reviewStore) {
+        reviewStore = await KeyValueStore.open('review-history');
+    }
+    return reviewStore;
+}
+
+function createSourceKey(source: ReviewSource): string {
+    return `reviews-${crypto.createHash('md5').update(`${source.type}|${source.url}`).digest('hex')}`;
+}
+
+/**
+ * IDs of the reviews earlier crawls of the source returned
+ */
+export async function getSeenReviewIds(source: ReviewSource): Promise<Set<string>> {
+    const store = await getReviewStore();
+    const stored = await store.getValue<StoredSourceReviews>(createSourceKey(source));
+    return new Set(stored?.reviews.map(review => review.reviewId) ?? []);
+}
+
+/**
+ * Adds this crawl's reviews (newest first) in front of the ones already stored; a review
+ * crawled again replaces its stored copy
+ */
+export async function recordReviews(source: ReviewSource, reviews: Review[], crawledAt: string): Promise<void> {
+    const store = await getReviewStore();
+    const key = createSourceKey(source);
+    const previous = await store.getValue<StoredSourceReviews>(key);
+
+    const ids = new Set(reviews.map(review => review.reviewId));
+    const merged = [...reviews, ...(previous?.reviews ?? []).filter(review => !ids.has(review.reviewId))]
+        .slice(0, MAX_STORED_REVIEWS);
+    await store.setValue(key, { source, reviews: merged, crawledAt } satisfies StoredSourceReviews);
+}
+
+/**
+ * Stored reviews of every source matching the filter
+ */
+export async function listStoredReviews(filter: StoredReviewFilter = {}): Promise<StoredSourceReviews[]> {
+    const store = await getReviewStore();
+    const businessName = filter.businessName?.trim().toLowerCase();
+    const matches: StoredSourceReviews[] = [];
+
+    await store.forEachKey(async (key) => {
+        if (!key.startsWith('reviews-')) return;
+        const stored = await store.getValue<StoredSourceReviews>(key);
+        if (!stored) return;
+        if (filter.source && stored.source.type !== filter.source) return;
+        if (businessName && stored.source.businessName.trim().toLowerCase() !== businessName) return;
+        matches.push(stored);
+    });
+
+    return matches;
+}
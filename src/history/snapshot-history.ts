@@ -0,0 +1,234 @@
+import { KeyValueStore } from 'crawlee';
+import crypto from 'crypto';
+import type {
+    PageContent,
+    ContentChange,
+    SnapshotRetention,
+    SnapshotVersion,
+    SnapshotHistory,
+    SnapshotDiff,
+    ScreenshotViewport,
+} from '../types/index.js';
+import { detectChanges } from '../diff/content-diff.js';
+
+export const MAX_SNAPSHOT_VERSIONS = 1000;
+const DEFAULT_MAX_VERSIONS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCREENSHOT_VIEWPORTS: ScreenshotViewport[] = ['desktop', 'mobile'];
+
+interface SnapshotIndex {
+    url: string;
+    nextVersion: number;
+    versions: SnapshotVersion[];
+}
+
+/** Screenshot PNGs to store with a new version */
+export interface VersionScreenshot {
+    viewport: ScreenshotViewport;
+    image: Buffer;
+    /** Highlighted diff against the previous version's screenshot */
+    diffImage?: Buffer;
+}
+
+let snapshotStore: KeyValueStore | null = null;
+let screenshotStore: KeyValueStore | null = null;
+
+async function getSnapshotStore(): Promise<KeyValueStore> {
+    if (!snapshotStore) {
+        snapshotStore = await KeyValueStore.open('competitor-snapshots');
+    }
+    return snapshotStore;
+}
+
+// Images are kept apart from the JSON snapshots
+async function getScreenshotStore(): Promise<KeyValueStore> {
+    if (!screenshotStore) {
+        screenshotStore = await KeyValueStore.open('competitor-screenshots');
+    }
+    return screenshotStore;
+}
+
+// Before versioning, the latest snapshot was stored under the bare URL hash
+function createLegacyKey(url: string): string {
+    return crypto.createHash('md5').update(url).digest('hex');
+}
+
+function createIndexKey(url: string): string {
+    return `history-${createLegacyKey(url)}`;
+}
+
+function createVersionKey(url: string, version: number): string {
+    return `${createLegacyKey(url)}-v${version}`;
+}
+
+function createScreenshotKey(url: string, version: number, viewport: ScreenshotViewport, diff = false): string {
+    return `${createVersionKey(url, version)}-${viewport}${diff ? '-diff' : ''}`;
+}
+
+/**
+ * Loads a URL's version index, carrying over a pre-versioning snapshot as version 1
+ */
+async function loadIndex(store: KeyValueStore, url: string): Promise<SnapshotIndex> {
+    const index = await store.getValue<SnapshotIndex>(createIndexKey(url));
+    if (index) return index;
+
+    const legacy = await store.getValue<PageContent>(createLegacyKey(url));
+    if (!legacy) return { url, nextVersion: 1, versions: [] };
+
+    const { summary, severity } = detectChanges(null, legacy);
+    const migrated: SnapshotIndex = {
+        url,
+        nextVersion: 2,
+        versions: [{
+            version: 1,
+            crawledAt: legacy.crawledAt,
+            lastSeenAt: legacy.crawledAt,
+            contentHash: legacy.contentHash,
+            summary,
+            severity,
+        }],
+    };
+    await store.setValue(createVersionKey(url, 1), legacy);
+    await store.setValue(createIndexKey(url), migrated);
+    return migrated;
+}
+
+/**
+ * Latest stored snapshot of a page, or null if it has never been crawled
+ */
+export async function getLatestSnapshot(url: string): Promise<PageContent | null> {
+    const store = await getSnapshotStore();
+    const latest = (await loadIndex(store, url)).versions.at(-1);
+    if (!latest) return null;
+
+    return store.getValue<PageContent>(createVersionKey(url, latest.version));
+}
+
+/**
+ * A stored screenshot (or its diff image) of the given version, the latest by default
+ */
+export async function getSnapshotScreenshot(
+    url: string,
+    viewport: ScreenshotViewport,
+    options: { version?: number; diff?: boolean } = {},
+): Promise<{ version: number; image: Buffer } | null> {
+    const { versions } = await loadIndex(await getSnapshotStore(), url);
+    const version = options.version ?? versions.at(-1)?.version;
+    if (version === undefined || !versions.some(v => v.version === version)) return null;
+
+    const store = await getScreenshotStore();
+    const image = await store.getValue<Buffer>(createScreenshotKey(url, version, viewport, options.diff));
+    return image ? { version, image } : null;
+}
+
+/**
+ * Stores a crawl of a page as a new version, or extends the latest version's lastSeenAt
+ * when nothing changed, then prunes versions outside the retention limits.
+ * Screenshots are only stored with a new version; an unchanged crawl keeps the previous ones.
+ */
+export async function recordSnapshot(
+    snapshot: PageContent,
+    changes: ContentChange,
+    hasChanges: boolean,
+    retention: SnapshotRetention = {},
+    screenshots: VersionScreenshot[] = [],
+): Promise<SnapshotVersion> {
+    const { url } = snapshot;
+    const store = await getSnapshotStore();
+    const index = await loadIndex(store, url);
+    const latest = index.versions.at(-1);
+
+    if (latest && !hasChanges) {
+        latest.lastSeenAt = snapshot.crawledAt;
+        await store.setValue(createIndexKey(url), index);
+        return latest;
+    }
+
+    const version: SnapshotVersion = {
+        version: index.nextVersion++,
+        crawledAt: snapshot.crawledAt,
+        lastSeenAt: snapshot.crawledAt,
+        contentHash: snapshot.contentHash,
+        summary: changes.summary,
+        severity: changes.severity,
+    };
+    await store.setValue(createVersionKey(url, version.version), snapshot);
+    index.versions.push(version);
+
+    const images = await getScreenshotStore();
+    for (const { viewport, image, diffImage } of screenshots) {
+        await images.setValue(createScreenshotKey(url, version.version, viewport), image, { contentType: 'image/png' });
+        if (diffImage) {
+            await images.setValue(createScreenshotKey(url, version.version, viewport, true), diffImage, { contentType: 'image/png' });
+        }
+    }
+
+    await pruneVersions(store, index, retention, Date.parse(snapshot.crawledAt));
+    await store.setValue(createIndexKey(url), index);
+    return version;
+}
+
+/**
+ * Stored versions of a page, oldest first, or null if it has never been crawled
+ */
+export async function getSnapshotHistory(url: string): Promise<SnapshotHistory | null> {
+    const store = await getSnapshotStore();
+    const { versions } = await loadIndex(store, url);
+    return versions.length > 0 ? { url, versions } : null;
+}
+
+/**
+ * Diff between two stored versions of a page. `to` defaults to the latest version and
+ * `from` to the version before `to`; returns null if either version does not exist.
+ */
+export async function diffSnapshotVersions(url: string, from?: number, to?: number): Promise<SnapshotDiff | null> {
+    const store = await getSnapshotStore();
+    const { versions } = await loadIndex(store, url);
+
+    const toVersion = to !== undefined ? versions.find(v => v.version === to) : versions.at(-1);
+    if (!toVersion) return null;
+
+    const fromVersion = from !== undefined
+        ? versions.find(v => v.version === from)
+        : versions.filter(v => v.version < toVersion.version).at(-1);
+    if (!fromVersion) return null;
+
+    const [previous, current] = await Promise.all([
+        store.getValue<PageContent>(createVersionKey(url, fromVersion.version)),
+        store.getValue<PageContent>(createVersionKey(url, toVersion.version)),
+    ]);
+    if (!previous || !current) return null;
+
+    return { url, from: fromVersion, to: toVersion, changes: detectChanges(previous, current) };
+}
+
+/**
+ * Drops versions beyond maxVersions or last seen before maxAgeDays. The latest version is always kept.
+ */
+async function pruneVersions(
+    store: KeyValueStore,
+    index: SnapshotIndex,
+    { maxVersions = DEFAULT_MAX_VERSIONS, maxAgeDays }: SnapshotRetention,
+    now: number,
+): Promise<void> {
+    const cutoff = maxAgeDays !== undefined ? now - maxAgeDays * DAY_MS : -Infinity;
+    const firstKept = index.versions.length - maxVersions;
+    const latest = index.versions.at(-1);
+
+    const images = await getScreenshotStore();
+    const kept: SnapshotVersion[] = [];
+    for (const [i, version] of index.versions.entries()) {
+        if (version === latest || (i >= firstKept && Date.parse(version.lastSeenAt) >= cutoff)) {
+            kept.push(version);
+            continue;
+        }
+
+        await store.setValue(createVersionKey(index.url, version.version), null);
+        for (const viewport of SCREENSHOT_VIEWPORTS) {
+            await images.setValue(createScreenshotKey(index.url, version.version, viewport), null);
+            await images.setValue(createScreenshotKey(index.url, version.version, viewport, true), null);
+        }
+    }
+    index.versions = kept;
+}
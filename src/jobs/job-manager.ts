@@ -0,0 +1,245 @@
+import { KeyValueStore } from 'crawlee';
+import crypto from 'crypto';
+import { runSerpCrawler } from '../crawlers/serp-crawler.js';
+import { runCompetitorCrawler } from '../crawlers/competitor-crawler.js';
+import { runReviewCrawler } from '../crawlers/review-crawler.js';
+import type {
+    ApiResponse,
+    SerpApiResponse,
+    CompetitorApiResponse,
+    ReviewApiResponse,
+    CrawlJob,
+    CrawlerType,
+    CrawlerConfigMap,
+    CrawlerRunOptions,
+} from '../types/index.js';
+
+const RESULTS_SUFFIX = '-results';
+
+// Job IDs are UUIDs; anything else (a results key, or characters the store rejects) is not a job
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Jobs run one at a time so only one crawl's browsers are open at once
+const pendingJobIds: string[] = [];
+const abortControllers = new Map<string, AbortController>();
+// Jobs cancelled after processQueue took them off the queue but before they started
+const cancelledBeforeStart = new Set<string>();
+let processing = false;
+
+export type JobFinishedListener = (job: CrawlJob, response: ApiResponse<unknown>) => void | Promise<void>;
+
+const finishedListeners: JobFinishedListener[] = [];
+
+let jobStore: KeyValueStore | null = null;
+
+async function getJobStore(): Promise<KeyValueStore> {
+    if (!jobStore) {
+        jobStore = await KeyValueStore.open('crawl-jobs');
+    }
+    return jobStore;
+}
+
+async function saveJob(job: CrawlJob): Promise<void> {
+    const store = await getJobStore();
+    await store.setValue(job.id, job);
+}
+
+/**
+ * Creates a job and queues it for execution
+ */
+export async function submitJob<T extends CrawlerType>(
+    type: T,
+    config: CrawlerConfigMap[T],
+    scheduleId?: string,
+): Promise<CrawlJob<T>> {
+    const job: CrawlJob<T> = {
+        id: crypto.randomUUID(),
+        type,
+        status: 'queued',
+        config,
+        progress: { completed: 0, total: 0 },
+        createdAt: new Date().toISOString(),
+        ...(scheduleId ? { scheduleId } : {}),
+    };
+
+    await saveJob(job);
+    pendingJobIds.push(job.id);
+    void processQueue();
+
+    return job;
+}
+
+export async function getJob(id: string): Promise<CrawlJob | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    const store = await getJobStore();
+    return store.getValue<CrawlJob>(id);
+}
+
+export async function getJobResults(id: string): Promise<ApiResponse<unknown> | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    const store = await getJobStore();
+    return store.getValue<ApiResponse<unknown>>(`${id}${RESULTS_SUFFIX}`);
+}
+
+/**
+ * Cancels a queued or running job. Returns the updated job, or null if it does not exist.
+ */
+export async function cancelJob(id: string): Promise<CrawlJob | null> {
+    const job = await getJob(id);
+    if (!job) return null;
+
+    // Started, though possibly not marked running yet: the job records its own final state
+    const controller = abortControllers.get(id);
+    if (controller) {
+        controller.abort();
+        return { ...job, status: 'running' };
+    }
+
+    if (job.status === 'queued') {
+        const index = pendingJobIds.indexOf(id);
+        if (index !== -1) {
+            pendingJobIds.splice(index, 1);
+        } else {
+            cancelledBeforeStart.add(id);
+        }
+
+        job.status = 'cancelled';
+        job.finishedAt = new Date().toISOString();
+        await saveJob(job);
+    }
+
+    return job;
+}
+
+/**
+ * Registers a listener called after each executed job has stored its results.
+ * Listeners run in the background and do not hold up the next job.
+ */
+export function onJobFinished(listener: JobFinishedListener): void {
+    finishedListeners.push(listener);
+}
+
+/**
+ * Re-queues jobs that were queued or running when the process last stopped
+ */
+export async function restoreJobs(): Promise<number> {
+    const store = await getJobStore();
+    const interrupted: CrawlJob[] = [];
+
+    await store.forEachKey(async (key) => {
+        if (key.endsWith(RESULTS_SUFFIX)) return;
+        const job = await store.getValue<CrawlJob>(key);
+        if (job && (job.status === 'queued' || job.status === 'running')) {
+            interrupted.push(job);
+        }
+    });
+
+    interrupted.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of interrupted) {
+        job.status = 'queued';
+        job.progress = { completed: 0, total: job.progress.total };
+        delete job.startedAt;
+        await saveJob(job);
+        pendingJobIds.push(job.id);
+    }
+
+    void processQueue();
+
+    return interrupted.length;
+}
+
+async function processQueue(): Promise<void> {
+    if (processing) return;
+    processing = true;
+
+    try {
+        while (pendingJobIds.length > 0) {
+            const id = pendingJobIds.shift()!;
+            const job = await getJob(id);
+            // The stored state may predate a cancel that landed while it was being read
+            if (cancelledBeforeStart.delete(id) || !job || job.status !== 'queued') continue;
+            await executeJob(job);
+        }
+    } finally {
+        processing = false;
+    }
+}
+
+async function executeJob(job: CrawlJob): Promise<void> {
+    // Registered before the first await, so from here on cancelJob aborts instead of overwriting
+    const controller = new AbortController();
+    abortControllers.set(job.id, controller);
+    const store = await getJobStore();
+
+    const startTime = Date.now();
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await saveJob(job);
+
+    let response: ApiResponse<unknown>;
+    // Progress writes are chained so a late one never overwrites the final state
+    let progressWrites = Promise.resolve();
+
+    try {
+        const payload = await runCrawler(job, {
+            signal: controller.signal,
+            onProgress: (progress) => {
+                job.progress = progress;
+                const snapshot = { ...job };
+                progressWrites = progressWrites.then(() => saveJob(snapshot)).catch(() => undefined);
+            },
+        });
+
+        job.status = controller.signal.aborted ? 'cancelled' : 'completed';
+        response = {
+            success: true,
+            ...payload,
+            executionTime: Date.now() - startTime,
+        };
+    } catch (error) {
+        console.error(`Job ${job.id} (${job.type}) failed:`, error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error occurred';
+        response = {
+            success: false,
+            error: job.error,
+            executionTime: Date.now() - startTime,
+        };
+    } finally {
+        abortControllers.delete(job.id);
+    }
+
+    await progressWrites;
+    job.finishedAt = new Date().toISOString();
+    await store.setValue(`${job.id}${RESULTS_SUFFIX}`, response);
+    await saveJob(job);
+
+    console.log(`Job ${job.id} (${job.type}) ${job.status} in ${response.executionTime}ms`);
+
+    for (const listener of finishedListeners) {
+        Promise.resolve()
+            .then(() => listener(job, response))
+            .catch(error => console.error(`Job finished listener failed for ${job.id}:`, error));
+    }
+}
+
+/**
+ * Runs the job's crawler and shapes its output like the matching synchronous endpoint's response body
+ */
+async function runCrawler(job: CrawlJob, options: CrawlerRunOptions): Promise<Omit<ApiResponse<unknown>, 'success'>> {
+    switch (job.type) {
+        case 'serp': {
+            const { results, ...summaries } = await runSerpCrawler((job as CrawlJob<'serp'>).config, options);
+            return { data: results, ...summaries } as Omit<SerpApiResponse, 'success'>;
+        }
+        case 'competitor': {
+            const { results, ...summaries } = await runCompetitorCrawler((job as CrawlJob<'competitor'>).config, options);
+            return { data: results, ...summaries } as Omit<CompetitorApiResponse, 'success'>;
+        }
+        case 'reviews': {
+            const { results, ...summaries } = await runReviewCrawler((job as CrawlJob<'reviews'>).config, options);
+            return { data: results, ...summaries } as Omit<ReviewApiResponse, 'success'>;
+        }
+    }
+}
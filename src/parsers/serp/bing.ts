@@ -0,0 +1,100 @@
+import { load } from 'cheerio';
+import type { SerpFeature, ParsedSerpPage, SerpParseOptions } from '../../types/index.js';
+import { cleanText, absoluteUrl, uniqueTexts, createResultCollector } from './parser-utils.js';
+
+const BING_BASE_URL = 'https://www.bing.com/';
+
+/**
+ * Parse a Bing results page into organic results, ads, the answer box and related searches.
+ */
+export function parseBingSerp(html: string, options: SerpParseOptions): ParsedSerpPage {
+    const {
+        keyword,
+        maxResults = 10,
+        pageUrl = BING_BASE_URL,
+        crawledAt = new Date().toISOString(),
+    } = options;
+
+    const $ = load(html);
+    const { results, add, count, resultFeatures } = createResultCollector(keyword, crawledAt);
+
+    // Bing wraps result links in /ck/a?...&u=a1<base64url target>
+    const resolveHref = (href: string | undefined): string => {
+        const url = absoluteUrl(href, pageUrl);
+        try {
+            const parsed = new URL(url);
+            const encoded = parsed.searchParams.get('u');
+            if (parsed.pathname.startsWith('/ck/') && encoded?.startsWith('a1')) {
+                return Buffer.from(encoded.slice(2), 'base64url').toString('utf8');
+            }
+        } catch { }
+        return url;
+    };
+
+    // ----- Ads -----
+    $('li.b_ad li, .b_adTop li, .b_adBottom li').each((_, el) => {
+        const ad = $(el);
+        const link = ad.find('h2 a, .b_adurl a').first();
+        if (link.length) {
+            add('ad', resolveHref(link.attr('href')), cleanText(link), cleanText(ad.find('.b_caption p, .b_vlist2col')));
+        }
+    });
+
+    // ----- Answer box (Bing's featured snippet) -----
+    const answer = $('.b_ans .b_focusTextLarge, .b_ans .b_focusTextMedium, .b_ans .rwrl').first();
+    if (answer.length) {
+        const block = answer.closest('.b_ans');
+        const citeLink = block.find('cite').first().closest('a');
+        const link = citeLink.length ? citeLink : block.find('a[href^="http"]').first();
+        if (link.length) {
+            add('featured_snippet', resolveHref(link.attr('href')), cleanText(block.find('h2')) || cleanText(link), cleanText(answer));
+        }
+    }
+
+    // ----- Videos / news carousels -----
+    $('.b_vidAns a.mc_vtvc_link, #vidans2 a[href*="/videos/"]').each((_, el) => {
+        const link = $(el);
+        add('video', resolveHref(link.attr('href')), cleanText(link.find('.mc_vtvc_title, [title]')) || link.attr('title') || '');
+    });
+    $('.b_nwsAns a.title, #ans_nws a.title').each((_, el) => {
+        const link = $(el);
+        add('news', resolveHref(link.attr('href')), cleanText(link));
+    });
+
+    // ----- Organic results -----
+    $('li.b_algo').each((_, el) => {
+        if (count('organic') >= maxResults) return false;
+        const item = $(el);
+        const link = item.find('h2 a').first();
+        if (!link.length) return;
+        add(
+            'organic',
+            resolveHref(link.attr('href')),
+            cleanText(link),
+            cleanText(item.find('.b_caption p, .b_lineclamp2, .b_lineclamp3, .b_lineclamp4')),
+        );
+    });
+
+    // ----- People Also Ask / related searches -----
+    const peopleAlsoAsk = uniqueTexts(
+        $('#relatedQnAListDisplay .b_1linetrunc, [data-tag="RelatedQnA.Item"] .b_1linetrunc').toArray().map(el => cleanText($(el))),
+    );
+    const relatedSearches = uniqueTexts(
+        $('.b_rs a, #brsv3 a').toArray().map(el => cleanText($(el))),
+    );
+
+    const features: SerpFeature[] = resultFeatures();
+    if (peopleAlsoAsk.length) features.push('people_also_ask');
+    if (relatedSearches.length) features.push('related_searches');
+
+    return {
+        results,
+        summary: {
+            keyword,
+            features,
+            peopleAlsoAsk,
+            relatedSearches,
+            knowledgePanel: null,
+        },
+    };
+}
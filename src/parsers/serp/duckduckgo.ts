@@ -0,0 +1,54 @@
+import { load } from 'cheerio';
+import type { SerpResultType, SerpFeature, ParsedSerpPage, SerpParseOptions } from '../../types/index.js';
+import { cleanText, absoluteUrl, createResultCollector } from './parser-utils.js';
+
+const DDG_BASE_URL = 'https://html.duckduckgo.com/html/';
+
+/**
+ * Parse a page from the DuckDuckGo HTML endpoint into organic results and ads.
+ */
+export function parseDuckDuckGoSerp(html: string, options: SerpParseOptions): ParsedSerpPage {
+    const {
+        keyword,
+        maxResults = 10,
+        pageUrl = DDG_BASE_URL,
+        crawledAt = new Date().toISOString(),
+    } = options;
+
+    const $ = load(html);
+    const { results, add, count, resultFeatures } = createResultCollector(keyword, crawledAt);
+
+    // Result links go through //duckduckgo.com/l/?uddg=<encoded target>
+    const resolveHref = (href: string | undefined): string => {
+        const url = absoluteUrl(href, pageUrl);
+        try {
+            return new URL(url).searchParams.get('uddg') ?? url;
+        } catch {
+            return url;
+        }
+    };
+
+    $('.result').each((_, el) => {
+        const item = $(el);
+        const link = item.find('a.result__a').first();
+        if (!link.length) return;
+
+        const resultType: SerpResultType = item.hasClass('result--ad') ? 'ad' : 'organic';
+        if (resultType === 'organic' && count('organic') >= maxResults) return;
+
+        add(resultType, resolveHref(link.attr('href')), cleanText(link), cleanText(item.find('.result__snippet')));
+    });
+
+    const features: SerpFeature[] = resultFeatures();
+
+    return {
+        results,
+        summary: {
+            keyword,
+            features,
+            peopleAlsoAsk: [],
+            relatedSearches: [],
+            knowledgePanel: null,
+        },
+    };
+}
@@ -0,0 +1,193 @@
+import { load } from 'cheerio';
+import type { SerpResultType, SerpFeature, Sitelink, KnowledgePanel, ParsedSerpPage, SerpParseOptions } from '../../types/index.js';
+import { cleanText, absoluteUrl, uniqueTexts, createResultCollector } from './parser-utils.js';
+
+const GOOGLE_BASE_URL = 'https://www.google.com/';
+
+// Blocks whose links must not be counted as organic results
+const FEATURE_SELECTORS: Record<Exclude<SerpResultType, 'organic'>, string> = {
+    ad: '#tads, #tadsb, #bottomads, [data-text-ad]',
+    featured_snippet: '.xpdopen .ifM9O, .c2xzTb, [data-attrid="wa:/description"]',
+    video: 'video-voyager, .RzdJxc',
+    news: 'g-section-with-header:has(.WlydOe), .WlydOe',
+    image_pack: '#imagebox_bigimages, [data-attrid="images universal"]',
+    local_pack: '.VkpGBb, #lu_map, [data-local-attribute]',
+};
+
+const NON_ORGANIC_SELECTOR = [
+    ...Object.values(FEATURE_SELECTORS),
+    '.related-question-pair, [data-q]',
+    '#rhs, .kp-wholepage',
+].join(', ');
+
+/**
+ * Parse a Google results page into typed results (organic, ads, rich features) plus a feature summary.
+ * Organic results use the pattern "any <h3> inside an <a>" outside of feature blocks.
+ */
+export function parseGoogleSerp(html: string, options: SerpParseOptions): ParsedSerpPage {
+    const {
+        keyword,
+        maxResults = 10,
+        pageUrl = GOOGLE_BASE_URL,
+        crawledAt = new Date().toISOString(),
+    } = options;
+
+    const $ = load(html);
+    const { results, add, count, resultFeatures } = createResultCollector(keyword, crawledAt);
+
+    // Google's no-JS markup wraps targets in /url?q=<target>
+    const resolveHref = (href: string | undefined): string => {
+        const url = absoluteUrl(href, pageUrl);
+        try {
+            const parsed = new URL(url);
+            if (parsed.hostname.includes('google.') && parsed.pathname === '/url') {
+                return parsed.searchParams.get('q') ?? parsed.searchParams.get('url') ?? url;
+            }
+        } catch { }
+        return url;
+    };
+
+    // ----- Ads -----
+    $(FEATURE_SELECTORS.ad).find('a[data-pcu], a[data-rw]').each((_, el) => {
+        const link = $(el);
+        const container = link.closest('[data-text-ad]').length ? link.closest('[data-text-ad]') : link.parent();
+        add(
+            'ad',
+            link.attr('data-pcu')?.split(',')[0] || resolveHref(link.attr('href')),
+            cleanText(link.find('[role="heading"], h3')),
+            cleanText(container.find('.MUxGbd, .Va3FIb')),
+        );
+    });
+
+    // ----- Featured snippet -----
+    const snippet = $(FEATURE_SELECTORS.featured_snippet).first();
+    if (snippet.length) {
+        const blockEl = snippet.closest('block-component, .xpdopen');
+        const block = blockEl.length ? blockEl : snippet;
+        const link = block.find('a h3').first().closest('a');
+        if (link.length) {
+            add(
+                'featured_snippet',
+                resolveHref(link.attr('href')),
+                cleanText(link.find('h3')),
+                cleanText(block.find('.hgKElc, .iKJnec, [data-attrid="wa:/description"]')),
+            );
+        }
+    }
+
+    // ----- Videos -----
+    $(FEATURE_SELECTORS.video).find('a[href]').each((_, el) => {
+        const link = $(el);
+        const title = cleanText(link.find('[role="heading"], h3')) || link.attr('aria-label')?.trim() || '';
+        add('video', resolveHref(link.attr('href')), title);
+    });
+
+    // ----- Top stories -----
+    $('a.WlydOe').each((_, el) => {
+        const link = $(el);
+        add('news', resolveHref(link.attr('href')), cleanText(link.find('[role="heading"]')));
+    });
+
+    // ----- Image pack -----
+    const imagePack = $(FEATURE_SELECTORS.image_pack).first();
+    if (imagePack.length) {
+        const href = imagePack.find('a[href*="tbm=isch"], a[href*="udm=2"]').first().attr('href');
+        add('image_pack', href ? resolveHref(href) : pageUrl, cleanText(imagePack.find('[role="heading"]')) || 'Images');
+    }
+
+    // ----- Local pack -----
+    $('.VkpGBb').each((_, el) => {
+        const entry = $(el);
+        const website = entry.find('a.yYlJEf, a[href^="http"]:not([href*="google."])').first();
+        add(
+            'local_pack',
+            website.length ? resolveHref(website.attr('href')) : '',
+            cleanText(entry.find('.dbg0pd, .OSrXXb, [role="heading"]')),
+            cleanText(entry.find('.rllt__details')),
+        );
+    });
+
+    // ----- Organic results (with sitelinks) -----
+    $('a h3').each((_, el) => {
+        if (count('organic') >= maxResults) return false;
+
+        const h3 = $(el);
+        const link = h3.closest('a');
+        const href = resolveHref(link.attr('href'));
+        if (!href || link.closest(NON_ORGANIC_SELECTOR).length) return;
+
+        // Try to find a nearby description snippet
+        const resultContainer = link.closest('div.g, [data-hveid]');
+        const container = resultContainer.length ? resultContainer : link.closest('div');
+
+        const descEl = ['.VwiC3b', '[data-sncf]', 'div[style*="-webkit-line-clamp"]']
+            .map(selector => container.find(selector))
+            .find(el => el.length > 0);
+        const description = descEl ? cleanText(descEl) : '';
+
+        const sitelinks: Sitelink[] = [];
+        container.find('table a[href], .HiHjCd a[href], .usJj9c a[href]').each((_, a) => {
+            const title = cleanText($(a));
+            const url = resolveHref($(a).attr('href'));
+            if (title && url && url !== href) {
+                sitelinks.push({ title, url });
+            }
+        });
+
+        add('organic', href, cleanText(h3), description, sitelinks);
+    });
+
+    // ----- People Also Ask -----
+    const peopleAlsoAsk = uniqueTexts(
+        $('.related-question-pair, [data-q]').toArray()
+            .map(el => $(el).attr('data-q') || cleanText($(el).find('[role="button"] span, span'))),
+    );
+
+    // ----- Related searches -----
+    const relatedSearches = uniqueTexts(
+        $('#botstuff a[href^="/search"], a.k8XOCe, .s75CSd').toArray().map(el => cleanText($(el))),
+    );
+
+    // ----- Knowledge panel -----
+    let knowledgePanel: KnowledgePanel | null = null;
+    const panel = $('.kp-wholepage, #rhs [data-attrid="title"]').first().closest('.kp-wholepage, #rhs');
+    if (panel.length) {
+        const attributes: Record<string, string> = {};
+        panel.find('.wDYxhc[data-attrid^="kc:"], .wDYxhc[data-attrid^="ss:"]').each((_, el) => {
+            const row = $(el);
+            const label = cleanText(row.find('.w8qArf')).replace(/:$/, '');
+            const value = cleanText(row.find('.LrzXr, .kno-fv'));
+            if (label && value) attributes[label] = value;
+        });
+
+        const title = cleanText(panel.find('[data-attrid="title"]'));
+        if (title) {
+            const website = panel.find('a[data-attrid="visit_official_site"], a.ab_button[href^="http"]').first();
+            knowledgePanel = {
+                title,
+                subtitle: cleanText(panel.find('[data-attrid="subtitle"]')),
+                description: cleanText(panel.find('.kno-rdesc span')),
+                website: website.length ? resolveHref(website.attr('href')) : '',
+                attributes,
+            };
+        }
+    }
+
+    // ----- Feature summary -----
+    const features: SerpFeature[] = resultFeatures();
+    if (peopleAlsoAsk.length) features.push('people_also_ask');
+    if (relatedSearches.length) features.push('related_searches');
+    if (knowledgePanel) features.push('knowledge_panel');
+    if (results.some(r => r.sitelinks?.length)) features.push('sitelinks');
+
+    return {
+        results,
+        summary: {
+            keyword,
+            features,
+            peopleAlsoAsk,
+            relatedSearches,
+            knowledgePanel,
+        },
+    };
+}
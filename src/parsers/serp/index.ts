@@ -0,0 +1,19 @@
+import type { SearchEngine, ParsedSerpPage, SerpParseOptions } from '../../types/index.js';
+import { parseGoogleSerp } from './google.js';
+import { parseBingSerp } from './bing.js';
+import { parseDuckDuckGoSerp } from './duckduckgo.js';
+
+export { parseGoogleSerp, parseBingSerp, parseDuckDuckGoSerp };
+
+const parsers: Record<SearchEngine, (html: string, options: SerpParseOptions) => ParsedSerpPage> = {
+    google: parseGoogleSerp,
+    bing: parseBingSerp,
+    duckduckgo: parseDuckDuckGoSerp,
+};
+
+/**
+ * Parse a saved SERP HTML document for the given engine. Pure: needs no browser or network.
+ */
+export function parseSerpHtml(engine: SearchEngine, html: string, options: SerpParseOptions): ParsedSerpPage {
+    return parsers[engine](html, options);
+}
@@ -0,0 +1,69 @@
+import type { Cheerio, AnyNode } from 'cheerio';
+import type { SerpResultType, SerpFeature, Sitelink, ParsedSerpPage } from '../../types/index.js';
+
+/**
+ * Collapsed text content of the first matched element
+ */
+export function cleanText(el: Cheerio<AnyNode>): string {
+    return el.first().text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Resolve an href against the page URL, returning '' when it is missing or invalid
+ */
+export function absoluteUrl(href: string | undefined, baseUrl: string): string {
+    if (!href) return '';
+    try {
+        return new URL(href, baseUrl).href;
+    } catch {
+        return '';
+    }
+}
+
+export function uniqueTexts(values: string[]): string[] {
+    return Array.from(new Set(values.filter(Boolean)));
+}
+
+/**
+ * Accumulates results for one page, numbering positions per resultType and skipping duplicates
+ */
+export function createResultCollector(keyword: string, crawledAt: string) {
+    const results: ParsedSerpPage['results'] = [];
+    const positions: Partial<Record<SerpResultType, number>> = {};
+    const seen = new Set<string>();
+
+    const add = (
+        resultType: SerpResultType,
+        url: string,
+        title: string,
+        description = '',
+        sitelinks?: Sitelink[],
+    ): void => {
+        const dedupeKey = `${resultType}|${url}`;
+        if (!url || !title || seen.has(dedupeKey)) return;
+        seen.add(dedupeKey);
+
+        const position = (positions[resultType] ?? 0) + 1;
+        positions[resultType] = position;
+
+        results.push({
+            keyword,
+            resultType,
+            position,
+            url,
+            title,
+            description,
+            ...(sitelinks?.length ? { sitelinks } : {}),
+            crawledAt,
+        });
+    };
+
+    const count = (resultType: SerpResultType): number => positions[resultType] ?? 0;
+
+    // Result types present on the page, excluding plain organic listings
+    const resultFeatures = (): SerpFeature[] =>
+        (Object.keys(positions) as SerpResultType[])
+            .filter((type): type is Exclude<SerpResultType, 'organic'> => type !== 'organic');
+
+    return { results, add, count, resultFeatures };
+}
@@ -0,0 +1,84 @@
+import type { PolitenessOptions, SkippedUrl } from '../types/index.js';
+import { getRobotsTxt, isAllowedByRobots, getCrawlDelay } from './robots-txt.js';
+
+export const DEFAULT_ROBOTS_USER_AGENT = 'SEOCrawlerAPI';
+export const MAX_HOST_DELAY_MS = 60000;
+const DEFAULT_HOST_DELAY_MS = 500;
+
+// Crawl-delay values above this are capped so a request still fits in the crawler's timeouts
+const MAX_CRAWL_DELAY_MS = 30000;
+
+// Earliest time the next request to each host may start, shared by every crawl in the process
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Returns why robots.txt rules out the URL, or null if it may be crawled
+ */
+export async function checkRobots(url: string, options: PolitenessOptions = {}): Promise<SkippedUrl | null> {
+    const { respectRobotsTxt = true, robotsUserAgent = DEFAULT_ROBOTS_USER_AGENT } = options;
+    if (!respectRobotsTxt) return null;
+
+    const target = new URL(url);
+    const robots = await getRobotsTxt(target.origin);
+    if (isAllowedByRobots(robots, robotsUserAgent, target)) return null;
+
+    return robots.status === 'unavailable'
+        ? { url, reason: 'robots-unavailable', detail: `${target.origin}/robots.txt could not be fetched` }
+        : { url, reason: 'robots-disallowed', detail: `Disallowed for ${robotsUserAgent} by ${target.origin}/robots.txt` };
+}
+
+/**
+ * Splits items into those robots.txt allows and skipped entries for the rest
+ */
+export async function filterByRobots<T>(
+    items: T[],
+    getUrl: (item: T) => string,
+    options: PolitenessOptions = {},
+): Promise<{ allowed: T[]; skipped: SkippedUrl[] }> {
+    const allowed: T[] = [];
+    const skipped: SkippedUrl[] = [];
+
+    for (const item of items) {
+        const skip = await checkRobots(getUrl(item), options);
+        if (skip) {
+            skipped.push(skip);
+        } else {
+            allowed.push(item);
+        }
+    }
+
+    return { allowed, skipped };
+}
+
+/**
+ * Waits until the URL's host may receive another request. The gap between requests is
+ * hostDelayMs or the robots.txt Crawl-delay, whichever is longer, and holds across
+ * concurrent requests, crawls and jobs.
+ */
+export async function waitForHostTurn(url: string, options: PolitenessOptions = {}): Promise<void> {
+    const { respectRobotsTxt = true, robotsUserAgent = DEFAULT_ROBOTS_USER_AGENT, hostDelayMs = DEFAULT_HOST_DELAY_MS } = options;
+    const { host, origin } = new URL(url);
+
+    let delay = hostDelayMs;
+    if (respectRobotsTxt) {
+        const crawlDelay = getCrawlDelay(await getRobotsTxt(origin), robotsUserAgent);
+        if (crawlDelay !== undefined) delay = Math.max(delay, Math.min(crawlDelay * 1000, MAX_CRAWL_DELAY_MS));
+    }
+
+    // Reserve the slot before waiting so concurrent callers queue up behind it
+    const now = Date.now();
+    const slot = Math.max(now, nextRequestAt.get(host) ?? 0);
+    nextRequestAt.set(host, slot + delay);
+    pruneIdleHosts(now);
+
+    if (slot > now) {
+        await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+}
+
+function pruneIdleHosts(now: number): void {
+    if (nextRequestAt.size < 1000) return;
+    for (const [host, next] of nextRequestAt) {
+        if (next < now) nextRequestAt.delete(host);
+    }
+}
@@ -0,0 +1,153 @@
+// Parsed files are reused for a day (RFC 9309); failed fetches are retried sooner
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const UNAVAILABLE_TTL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10000;
+// Crawlers must parse at least 500 KiB; anything past that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+}
+
+interface RobotsGroup {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+    /** 'unavailable' when the file could not be fetched (5xx or network error), which disallows everything */
+    status: 'parsed' | 'missing' | 'unavailable';
+    groups: RobotsGroup[];
+    expiresAt: number;
+}
+
+const cache = new Map<string, Promise<RobotsTxt>>();
+
+/**
+ * The robots.txt of an origin, fetched once and cached
+ */
+export async function getRobotsTxt(origin: string): Promise<RobotsTxt> {
+    const cached = cache.get(origin);
+    if (cached && (await cached).expiresAt > Date.now()) return cached;
+
+    const pending = fetchRobotsTxt(origin);
+    cache.set(origin, pending);
+    return pending;
+}
+
+/**
+ * Whether the user agent may fetch the URL. Allow and Disallow rules are matched with `*` and `$`
+ * wildcards, the longest matching rule wins, and Allow wins ties.
+ */
+export function isAllowedByRobots(robots: RobotsTxt, userAgent: string, url: URL): boolean {
+    if (robots.status === 'missing' || url.pathname === '/robots.txt') return true;
+    if (robots.status === 'unavailable') return false;
+
+    const path = url.pathname + url.search;
+    let best: RobotsRule | null = null;
+
+    for (const rule of findGroup(robots, userAgent)?.rules ?? []) {
+        if (!matchesPattern(rule.pattern, path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+            best = rule;
+        }
+    }
+
+    return best?.allow ?? true;
+}
+
+/**
+ * Crawl-delay in seconds for the user agent, if the file sets one
+ */
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string): number | undefined {
+    return findGroup(robots, userAgent)?.crawlDelay;
+}
+
+function parseRobotsTxt(text: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const key = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (key === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !collectingAgents) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            collectingAgents = true;
+            continue;
+        }
+
+        collectingAgents = false;
+        if (!current) continue;
+
+        if ((key === 'allow' || key === 'disallow') && value) {
+            current.rules.push({ allow: key === 'allow', pattern: value });
+        } else if (key === 'crawl-delay') {
+            const delay = Number(value);
+            if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Rules of the groups naming the user agent's product token, or of the `*` groups if none do
+ */
+function findGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+    const token = userAgent.split('/')[0].trim().toLowerCase();
+    const matching = robots.groups.filter(group => group.agents.includes(token));
+    const groups = matching.length > 0 ? matching : robots.groups.filter(group => group.agents.includes('*'));
+    if (groups.length === 0) return undefined;
+
+    const delays = groups.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+    return {
+        agents: groups.flatMap(group => group.agents),
+        rules: groups.flatMap(group => group.rules),
+        crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+    };
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const source = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+async function fetchRobotsTxt(origin: string): Promise<RobotsTxt> {
+    try {
+        const response = await fetch(new URL('/robots.txt', origin), {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+            return { status: 'parsed', groups: parseRobotsTxt(await response.text()), expiresAt: Date.now() + CACHE_TTL_MS };
+        }
+        // A missing robots.txt (any 4xx) allows everything
+        if (response.status < 500) {
+            await response.body?.cancel();
+            return { status: 'missing', groups: [], expiresAt: Date.now() + CACHE_TTL_MS };
+        }
+
+        console.warn(`robots.txt of ${origin} returned HTTP ${response.status}; treating the site as disallowed`);
+    } catch (e) {
+        console.warn(`Failed to fetch robots.txt of ${origin}; treating the site as disallowed:`, e);
+    }
+
+    return { status: 'unavailable', groups: [], expiresAt: Date.now() + UNAVAILABLE_TTL_MS };
+}
@@ -0,0 +1,142 @@
+import type { ProxyHealth, SerpBlockReason } from '../types/index.js';
+
+// Cooldown after a failure doubles with each consecutive failure, up to the max
+const BASE_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 30 * 60_000;
+
+// A proxy is removed after this many consecutive failures, or when its score
+// drops below MIN_SCORE once it has at least MIN_ATTEMPTS_FOR_SCORE attempts
+const MAX_CONSECUTIVE_FAILURES = 5;
+const MIN_SCORE = 0.2;
+const MIN_ATTEMPTS_FOR_SCORE = 10;
+
+interface ProxyState {
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    blockReasons: Partial<Record<SerpBlockReason | 'error', number>>;
+    lastBlockReason?: SerpBlockReason | 'error';
+    lastUsedAt?: number;
+    cooldownUntil?: number;
+    removed: boolean;
+}
+
+// Health is shared across crawler runs for the lifetime of the process
+const proxies = new Map<string, ProxyState>();
+
+function getState(proxyUrl: string): ProxyState {
+    let state = proxies.get(proxyUrl);
+    if (!state) {
+        state = { successes: 0, failures: 0, consecutiveFailures: 0, blockReasons: {}, removed: false };
+        proxies.set(proxyUrl, state);
+    }
+    return state;
+}
+
+/**
+ * Success ratio with add-one smoothing, so new proxies start at 0.5 rather than 0 or 1
+ */
+function score(state: ProxyState): number {
+    return (state.successes + 1) / (state.successes + state.failures + 2);
+}
+
+function isAvailable(state: ProxyState, now: number): boolean {
+    return !state.removed && (state.cooldownUntil ?? 0) <= now;
+}
+
+export function registerProxies(proxyUrls: string[]): void {
+    proxyUrls.forEach(getState);
+}
+
+export function recordProxySuccess(proxyUrl: string): void {
+    const state = getState(proxyUrl);
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = undefined;
+}
+
+export function recordProxyFailure(proxyUrl: string, reason: SerpBlockReason | 'error'): void {
+    const state = getState(proxyUrl);
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastBlockReason = reason;
+    state.blockReasons[reason] = (state.blockReasons[reason] ?? 0) + 1;
+
+    const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** (state.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    state.cooldownUntil = Date.now() + cooldown;
+
+    const attempts = state.successes + state.failures;
+    if (
+        state.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES ||
+        (attempts >= MIN_ATTEMPTS_FOR_SCORE && score(state) < MIN_SCORE)
+    ) {
+        state.removed = true;
+        console.warn(`Proxy removed after repeated failures: ${maskProxyUrl(proxyUrl)}`);
+    }
+}
+
+export function isProxyUsable(proxyUrl: string): boolean {
+    return isAvailable(getState(proxyUrl), Date.now());
+}
+
+/**
+ * Picks the healthiest available proxy, preferring the least recently used among equal scores.
+ * Falls back to the proxy whose cooldown ends soonest; throws if every proxy has been removed.
+ */
+export function pickProxy(proxyUrls: string[]): string {
+    const now = Date.now();
+    const candidates = proxyUrls
+        .map(url => ({ url, state: getState(url) }))
+        .filter(({ state }) => !state.removed);
+
+    if (candidates.length === 0) {
+        throw new Error('All proxies have been removed as unhealthy');
+    }
+
+    const available = candidates.filter(({ state }) => isAvailable(state, now));
+    if (available.length === 0) {
+        candidates.sort((a, b) => (a.state.cooldownUntil ?? 0) - (b.state.cooldownUntil ?? 0));
+        return markUsed(candidates[0].url, now);
+    }
+
+    available.sort((a, b) =>
+        score(b.state) - score(a.state) || (a.state.lastUsedAt ?? 0) - (b.state.lastUsedAt ?? 0),
+    );
+    return markUsed(available[0].url, now);
+}
+
+function markUsed(proxyUrl: string, now: number): string {
+    getState(proxyUrl).lastUsedAt = now;
+    return proxyUrl;
+}
+
+/**
+ * Health report for every proxy seen by the process, with credentials masked
+ */
+export function getProxyHealthReport(): ProxyHealth[] {
+    const now = Date.now();
+    return Array.from(proxies.entries()).map(([url, state]) => ({
+        proxyUrl: maskProxyUrl(url),
+        status: state.removed ? 'removed' : isAvailable(state, now) ? 'healthy' : 'cooling_down',
+        score: Math.round(score(state) * 100) / 100,
+        successes: state.successes,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        blockReasons: state.blockReasons,
+        ...(state.lastBlockReason ? { lastBlockReason: state.lastBlockReason } : {}),
+        ...(state.lastUsedAt ? { lastUsedAt: new Date(state.lastUsedAt).toISOString() } : {}),
+        ...(state.cooldownUntil && state.cooldownUntil > now
+            ? { cooldownUntil: new Date(state.cooldownUntil).toISOString() }
+            : {}),
+    }));
+}
+
+export function maskProxyUrl(proxyUrl: string): string {
+    try {
+        const url = new URL(proxyUrl);
+        if (url.password) url.password = '***';
+        return url.toString().replace(/\/$/, '');
+    } catch {
+        return proxyUrl;
+    }
+}
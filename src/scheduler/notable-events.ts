@@ -0,0 +1,71 @@
+import type {
+    ApiResponse,
+    CrawlJob,
+    SerpApiResponse,
+    CompetitorApiResponse,
+    ReviewResult,
+} from '../types/index.js';
+
+// Reviews rated at or below this are reported as notable
+const NEGATIVE_REVIEW_RATING = 2;
+
+/**
+ * Describes what in a finished run is worth a notification; empty when nothing notable happened
+ */
+export function findNotableEvents(job: CrawlJob, response: ApiResponse<unknown>, rankDropThreshold = 1): string[] {
+    if (job.status === 'failed') {
+        return [`Run failed: ${job.error ?? 'unknown error'}`];
+    }
+    if (job.status !== 'completed') return [];
+
+    switch (job.type) {
+        case 'serp':
+            return findSerpEvents(response as SerpApiResponse, rankDropThreshold);
+        case 'competitor':
+            return findCompetitorEvents(response as CompetitorApiResponse);
+        case 'reviews':
+            return findReviewEvents(response as ApiResponse<ReviewResult[]>);
+    }
+}
+
+function findSerpEvents(response: SerpApiResponse, rankDropThreshold: number): string[] {
+    const events: string[] = [];
+
+    for (const ranking of response.rankings ?? []) {
+        const { keyword, domain, previousPosition, currentPosition, change } = ranking;
+        if (previousPosition !== null && currentPosition === null) {
+            events.push(`"${keyword}": ${domain} dropped out of the results (was #${previousPosition})`);
+        } else if (change !== null && -change >= rankDropThreshold) {
+            events.push(`"${keyword}": ${domain} dropped from #${previousPosition} to #${currentPosition}`);
+        }
+    }
+
+    for (const failure of response.failures ?? []) {
+        events.push(`"${failure.keyword}" failed on ${failure.engine}: ${failure.reason}`);
+    }
+
+    return events;
+}
+
+function findCompetitorEvents(response: CompetitorApiResponse): string[] {
+    const events = (response.data ?? [])
+        .filter(result => result.hasChanges)
+        .map(result => `${result.url}: ${result.changes.summary}`);
+
+    for (const site of response.sites ?? []) {
+        if (site.pagesAdded.length > 0 || site.pagesRemoved.length > 0) {
+            events.push(`${site.site}: ${site.pagesAdded.length} pages added, ${site.pagesRemoved.length} removed`);
+        }
+    }
+
+    return events;
+}
+
+function findReviewEvents(response: ApiResponse<ReviewResult[]>): string[] {
+    return (response.data ?? []).flatMap(result => {
+        const negative = result.reviews.filter(review => review.rating > 0 && review.rating <= NEGATIVE_REVIEW_RATING);
+        return negative.length > 0
+            ? [`${result.businessName} (${result.source}): ${negative.length} reviews rated ${NEGATIVE_REVIEW_RATING} stars or lower`]
+            : [];
+    });
+}
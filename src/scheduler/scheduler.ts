@@ -0,0 +1,232 @@
+import { KeyValueStore } from 'crawlee';
+import { Cron } from 'croner';
+import crypto from 'crypto';
+import type {
+    ApiResponse,
+    CrawlJob,
+    CrawlSchedule,
+    CrawlScheduleInput,
+    WebhookDelivery,
+    WebhookPayload,
+} from '../types/index.js';
+import { submitJob, getJob, onJobFinished } from '../jobs/job-manager.js';
+import { deliverWebhook } from '../webhooks/webhook-sender.js';
+import { findNotableEvents } from './notable-events.js';
+import { maskProxyUrl } from '../proxies/proxy-health.js';
+
+// Cron timers of enabled schedules, keyed by schedule id
+const timers = new Map<string, Cron>();
+let started = false;
+
+let scheduleStore: KeyValueStore | null = null;
+
+async function getScheduleStore(): Promise<KeyValueStore> {
+    if (!scheduleStore) {
+        scheduleStore = await KeyValueStore.open('crawl-schedules');
+    }
+    return scheduleStore;
+}
+
+async function loadSchedule(id: string): Promise<CrawlSchedule | null> {
+    const store = await getScheduleStore();
+    return store.getValue<CrawlSchedule>(id);
+}
+
+async function saveSchedule(schedule: CrawlSchedule): Promise<void> {
+    const store = await getScheduleStore();
+    await store.setValue(schedule.id, schedule);
+}
+
+/**
+ * Adds the next run time and masks the webhook secret for API responses
+ */
+function toPublicSchedule(schedule: CrawlSchedule): CrawlSchedule {
+    const { webhook } = schedule;
+    return {
+        ...schedule,
+        ...(webhook?.secret ? { webhook: { ...webhook, secret: '***' } } : {}),
+        nextRunAt: timers.get(schedule.id)?.nextRun()?.toISOString() ?? null,
+    };
+}
+
+function startTimer(schedule: CrawlSchedule): void {
+    stopTimer(schedule.id);
+    if (!schedule.enabled) return;
+
+    const timer = new Cron(schedule.cron, { timezone: schedule.timezone }, () => {
+        runSchedule(schedule.id).catch(error =>
+            console.error(`Scheduled run of ${schedule.id} could not be started:`, error),
+        );
+    });
+    timers.set(schedule.id, timer);
+}
+
+function stopTimer(id: string): void {
+    timers.get(id)?.stop();
+    timers.delete(id);
+}
+
+export async function createSchedule(input: CrawlScheduleInput): Promise<CrawlSchedule> {
+    const now = new Date().toISOString();
+    const schedule: CrawlSchedule = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await saveSchedule(schedule);
+    startTimer(schedule);
+
+    return toPublicSchedule(schedule);
+}
+
+export async function listSchedules(): Promise<CrawlSchedule[]> {
+    const store = await getScheduleStore();
+    const schedules: CrawlSchedule[] = [];
+
+    await store.forEachKey(async (key) => {
+        const schedule = await store.getValue<CrawlSchedule>(key);
+        if (schedule) schedules.push(schedule);
+    });
+
+    return schedules
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(toPublicSchedule);
+}
+
+export async function getSchedule(id: string): Promise<CrawlSchedule | null> {
+    const schedule = await loadSchedule(id);
+    return schedule ? toPublicSchedule(schedule) : null;
+}
+
+/**
+ * Replaces a schedule's settings with the result of `update`, which receives the current
+ * settings (secret included). Returns null if the schedule does not exist.
+ */
+export async function updateSchedule(
+    id: string,
+    update: (existing: CrawlScheduleInput) => CrawlScheduleInput,
+): Promise<CrawlSchedule | null> {
+    const existing = await loadSchedule(id);
+    if (!existing) return null;
+
+    const { name, type, config, cron, timezone, enabled, webhook } = existing;
+    const input = update({ name, type, config, cron, timezone, enabled, webhook });
+
+    const schedule: CrawlSchedule = {
+        id,
+        ...input,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+        ...(existing.lastRunAt ? { lastRunAt: existing.lastRunAt } : {}),
+        ...(existing.lastJobId ? { lastJobId: existing.lastJobId } : {}),
+        ...(existing.lastDelivery ? { lastDelivery: existing.lastDelivery } : {}),
+    };
+
+    await saveSchedule(schedule);
+    startTimer(schedule);
+
+    return toPublicSchedule(schedule);
+}
+
+/**
+ * Deletes a schedule. Runs already queued still finish, without a webhook delivery.
+ */
+export async function deleteSchedule(id: string): Promise<boolean> {
+    stopTimer(id);
+
+    const store = await getScheduleStore();
+    if (!await store.getValue(id)) return false;
+
+    await store.setValue(id, null);
+    return true;
+}
+
+/**
+ * Queues a run of the schedule as a job. Returns null without queueing when the
+ * schedule does not exist or its previous run is still queued or running.
+ */
+export async function runSchedule(id: string): Promise<CrawlJob | null> {
+    const schedule = await loadSchedule(id);
+    if (!schedule) return null;
+
+    if (schedule.lastJobId) {
+        const lastJob = await getJob(schedule.lastJobId);
+        if (lastJob && (lastJob.status === 'queued' || lastJob.status === 'running')) {
+            console.warn(`Skipping run of schedule ${id}: job ${lastJob.id} is still ${lastJob.status}`);
+            return null;
+        }
+    }
+
+    const job = await submitJob(schedule.type, schedule.config, schedule.id);
+    schedule.lastRunAt = job.createdAt;
+    schedule.lastJobId = job.id;
+    await saveSchedule(schedule);
+
+    console.log(`Schedule ${id} queued job ${job.id} (${job.type})`);
+    return job;
+}
+
+/**
+ * Starts the timers of all stored schedules and webhook delivery for their runs.
+ * Call before restoring jobs so interrupted scheduled runs still notify.
+ */
+export async function startScheduler(): Promise<number> {
+    if (started) return timers.size;
+    started = true;
+
+    onJobFinished(notifyScheduleWebhook);
+
+    const store = await getScheduleStore();
+    await store.forEachKey(async (key) => {
+        const schedule = await store.getValue<CrawlSchedule>(key);
+        if (schedule) startTimer(schedule);
+    });
+
+    return timers.size;
+}
+
+/**
+ * The job as sent to webhooks: proxy URLs often carry credentials, so their passwords are masked
+ */
+function toWebhookJob(job: CrawlJob): CrawlJob {
+    if (job.type !== 'serp') return job;
+    const { config } = job as CrawlJob<'serp'>;
+    if (!config.proxyUrls?.length) return job;
+    return { ...job, config: { ...config, proxyUrls: config.proxyUrls.map(maskProxyUrl) } };
+}
+
+async function notifyScheduleWebhook(job: CrawlJob, response: ApiResponse<unknown>): Promise<void> {
+    if (!job.scheduleId) return;
+
+    const schedule = await loadSchedule(job.scheduleId);
+    if (!schedule?.webhook) return;
+
+    const { webhook } = schedule;
+    const events = findNotableEvents(job, response, webhook.rankDropThreshold);
+
+    let delivery: WebhookDelivery;
+    if (webhook.notifyOn === 'notable' && events.length === 0) {
+        delivery = { jobId: job.id, status: 'skipped', attempts: 0, events, at: new Date().toISOString() };
+    } else {
+        const payload: WebhookPayload = {
+            event: job.status === 'failed' ? 'crawl.failed' : job.status === 'cancelled' ? 'crawl.cancelled' : 'crawl.completed',
+            scheduleId: schedule.id,
+            ...(schedule.name ? { scheduleName: schedule.name } : {}),
+            job: toWebhookJob(job),
+            notable: events.length > 0,
+            events,
+            result: response,
+        };
+        delivery = await deliverWebhook(webhook, payload);
+        console.log(`Webhook for job ${job.id} ${delivery.status} after ${delivery.attempts} attempt(s)`);
+    }
+
+    // Re-read: the schedule may have been edited or deleted while the delivery was retrying
+    const latest = await loadSchedule(schedule.id);
+    if (latest) {
+        latest.lastDelivery = delivery;
+        await saveSchedule(latest);
+    }
+}
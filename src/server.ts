@@ -2,14 +2,67 @@ import express, { Request, Response, NextFunction } from 'express';
 import { runSerpCrawler } from './crawlers/serp-crawler.js';
 import { runCompetitorCrawler } from './crawlers/competitor-crawler.js';
 import { runReviewCrawler } from './crawlers/review-crawler.js';
+import { runLinkChecker } from './crawlers/link-checker.js';
+import { runContentGapCrawler } from './crawlers/content-gap-crawler.js';
+import { submitJob, getJob, getJobResults, cancelJob, restoreJobs } from './jobs/job-manager.js';
+import { getDomainRankHistory, getVisibilityScore } from './history/rank-history.js';
+import { getSnapshotHistory, diffSnapshotVersions, getSnapshotScreenshot } from './history/snapshot-history.js';
+import { getLinkGraph } from './history/link-graph-history.js';
+import { toGexf, toEdgeCsv, toNodeCsv } from './analysis/link-graph-export.js';
+import { analyzeReviews } from './analysis/review-analysis.js';
+import { buildReviewTrends } from './analysis/review-trends.js';
+import { listStoredReviews } from './history/review-history.js';
+import {
+    startScheduler,
+    createSchedule,
+    listSchedules,
+    getSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runSchedule,
+} from './scheduler/scheduler.js';
+import { parseSerpHtml } from './parsers/serp/index.js';
+import { getProxyHealthReport } from './proxies/proxy-health.js';
+import {
+    ValidationError,
+    CRAWLER_TYPES,
+    parseSerpConfig,
+    parseCompetitorConfig,
+    parseLinkCheckerConfig,
+    parseContentGapConfig,
+    parseReviewConfig,
+    parseReviewAnalysisRequest,
+    parseReviewTrendsQuery,
+    parseCrawlerConfig,
+    parseSerpScope,
+    parseSerpParseRequest,
+    parseSnapshotDiffQuery,
+    parseScreenshotQuery,
+    parseLinkGraphQuery,
+    parseScheduleInput,
+    parseScheduleUpdate,
+} from './validation/index.js';
+import type {
+    SerpRequestBody,
+    SerpParseRequestBody,
+    CompetitorRequestBody,
+    LinkCheckRequestBody,
+    ContentGapRequestBody,
+    ReviewsRequestBody,
+    ReviewAnalysisRequestBody,
+    ScheduleRequestBody,
+} from './validation/index.js';
 import type {
-    SerpCrawlerConfig,
-    CompetitorCrawlerConfig,
-    ReviewCrawlerConfig,
     ApiResponse,
-    SERPResult,
-    CompetitorResult,
-    ReviewResult,
+    SerpApiResponse,
+    CompetitorApiResponse,
+    LinkCheckApiResponse,
+    ContentGapReport,
+    ReviewApiResponse,
+    ReviewAnalysisReport,
+    CrawlJob,
+    CrawlerType,
+    CrawlSchedule,
 } from './types/index.js';
 
 const app = express();
@@ -30,58 +83,154 @@ app.get('/health', (_req: Request, res: Response) => {
 });
 
 // ===================== POST /serp =====================
-interface SerpRequestBody {
-    keywords: string[];
-    maxResults?: number;
-    proxyUrls?: string[];
-    minDelay?: number;
-    maxDelay?: number;
-}
+app.post('/serp', async (req: Request<{}, SerpApiResponse, SerpRequestBody>, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const config = parseSerpConfig(req.body);
+
+        console.log(`Starting SERP crawl for ${config.keywords.length} keywords`);
+
+        const { results, ...summaries } = await runSerpCrawler(config);
+
+        const executionTime = Date.now() - startTime;
+        console.log(`SERP crawl completed in ${executionTime}ms, found ${results.length} results`);
+
+        return res.json({
+            success: true,
+            data: results,
+            ...summaries,
+            executionTime,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('SERP crawler error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            executionTime: Date.now() - startTime,
+        });
+    }
+});
 
-app.post('/serp', async (req: Request<{}, ApiResponse<SERPResult[]>, SerpRequestBody>, res: Response) => {
+// ===================== POST /serp/parse =====================
+app.post('/serp/parse', (req: Request<{}, SerpApiResponse, SerpParseRequestBody>, res: Response) => {
     const startTime = Date.now();
 
     try {
-        const { keywords, maxResults, proxyUrls, minDelay, maxDelay } = req.body;
+        const { html, keyword, engine, maxResults, page, pageUrl, targeting } = parseSerpParseRequest(req.body);
 
-        // Validation
-        if (!keywords || !Array.isArray(keywords) || keywords.length === 0) {
-            return res.status(400).json({
-                success: false,
-                error: 'Invalid request: "keywords" must be a non-empty array of strings',
-            });
+        const { results, summary } = parseSerpHtml(engine, html, { keyword, maxResults, pageUrl });
+
+        return res.json({
+            success: true,
+            data: results.map(result => ({ ...result, engine, targeting, page })),
+            features: [{ ...summary, engine, targeting }],
+            executionTime: Date.now() - startTime,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
         }
+        console.error('SERP parse error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            executionTime: Date.now() - startTime,
+        });
+    }
+});
 
-        if (!keywords.every(k => typeof k === 'string')) {
+// ===================== GET /serp/history =====================
+app.get('/serp/history', async (req: Request, res: Response) => {
+    try {
+        const { keyword, domain } = req.query;
+        if (typeof keyword !== 'string' || !keyword || typeof domain !== 'string' || !domain) {
             return res.status(400).json({
                 success: false,
-                error: 'Invalid request: all keywords must be strings',
+                error: 'Invalid query: "keyword" and "domain" are required',
             });
         }
 
-        // Build config with defaults
-        const config: SerpCrawlerConfig = {
-            keywords,
-            maxResults: maxResults ?? 10,
-            proxyUrls: proxyUrls ?? undefined,
-            minDelay: minDelay ?? 3000,
-            maxDelay: maxDelay ?? 8000,
-        };
+        const { engine, targeting } = parseSerpScope(req.query);
+        const history = await getDomainRankHistory({ keyword, engine, targeting }, domain);
+        if (!history) {
+            return res.status(404).json({ success: false, error: 'No rank history recorded for this keyword' });
+        }
 
-        console.log(`Starting SERP crawl for ${keywords.length} keywords`);
+        return res.json({ success: true, data: history });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Rank history error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== GET /serp/visibility =====================
+app.get('/serp/visibility', async (req: Request, res: Response) => {
+    try {
+        const { domain, keyword } = req.query;
+        if (typeof domain !== 'string' || !domain) {
+            return res.status(400).json({ success: false, error: 'Invalid query: "domain" is required' });
+        }
 
-        const data = await runSerpCrawler(config);
+        // Repeat ?keyword= for each keyword in the set; omit it to use every recorded keyword
+        const keywords = (Array.isArray(keyword) ? keyword : keyword ? [keyword] : [])
+            .filter((k): k is string => typeof k === 'string');
+
+        const { engine, targeting } = parseSerpScope(req.query);
+        const visibility = await getVisibilityScore(domain, engine, targeting, keywords);
+
+        return res.json({ success: true, data: visibility });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Visibility error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== GET /proxies/health =====================
+app.get('/proxies/health', (_req: Request, res: Response) => {
+    res.json({ success: true, data: getProxyHealthReport() });
+});
+
+// ===================== POST /competitor =====================
+app.post('/competitor', async (req: Request<{}, CompetitorApiResponse, CompetitorRequestBody>, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const config = parseCompetitorConfig(req.body);
+
+        console.log(`Starting competitor crawl for ${config.urls.length} URLs (${config.mode} mode)`);
+
+        const { results, ...summaries } = await runCompetitorCrawler(config);
 
         const executionTime = Date.now() - startTime;
-        console.log(`SERP crawl completed in ${executionTime}ms, found ${data.length} results`);
+        console.log(`Competitor crawl completed in ${executionTime}ms, crawled ${results.length} pages`);
 
         return res.json({
             success: true,
-            data,
+            data: results,
+            ...summaries,
             executionTime,
         });
     } catch (error) {
-        console.error('SERP crawler error:', error);
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Competitor crawler error:', error);
         return res.status(500).json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -90,49 +239,133 @@ app.post('/serp', async (req: Request<{}, ApiResponse<SERPResult[]>, SerpRequest
     }
 });
 
-// ===================== POST /competitor =====================
-interface CompetitorRequestBody {
-    urls: string[];
-    includeSnapshots?: boolean;
-}
+// ===================== GET /competitor/history =====================
+app.get('/competitor/history', async (req: Request, res: Response) => {
+    try {
+        const { url } = req.query;
+        if (typeof url !== 'string' || !url) {
+            return res.status(400).json({ success: false, error: 'Invalid query: "url" is required' });
+        }
 
-app.post('/competitor', async (req: Request<{}, ApiResponse<CompetitorResult[]>, CompetitorRequestBody>, res: Response) => {
-    const startTime = Date.now();
+        const history = await getSnapshotHistory(url);
+        if (!history) {
+            return res.status(404).json({ success: false, error: 'No snapshots recorded for this URL' });
+        }
 
+        return res.json({ success: true, data: history });
+    } catch (error) {
+        console.error('Snapshot history error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== GET /competitor/diff =====================
+app.get('/competitor/diff', async (req: Request, res: Response) => {
     try {
-        const { urls, includeSnapshots } = req.body;
+        const { url, from, to } = parseSnapshotDiffQuery(req.query);
 
-        // Validation
-        if (!urls || !Array.isArray(urls) || urls.length === 0) {
-            return res.status(400).json({
+        const diff = await diffSnapshotVersions(url, from, to);
+        if (!diff) {
+            return res.status(404).json({
                 success: false,
-                error: 'Invalid request: "urls" must be a non-empty array of URL strings',
+                error: 'Snapshot versions not found for this URL (older versions may have been pruned)',
             });
         }
 
-        // Validate URLs
-        for (const url of urls) {
-            try {
-                new URL(url);
-            } catch {
-                return res.status(400).json({
-                    success: false,
-                    error: `Invalid URL: "${url}"`,
-                });
-            }
+        return res.json({ success: true, data: diff });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Snapshot diff error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== GET /competitor/screenshot =====================
+app.get('/competitor/screenshot', async (req: Request, res: Response) => {
+    try {
+        const { url, viewport, version, diff } = parseScreenshotQuery(req.query);
+
+        const screenshot = await getSnapshotScreenshot(url, viewport, { version, diff });
+        if (!screenshot) {
+            return res.status(404).json({
+                success: false,
+                error: diff
+                    ? 'No diff image for this version (it needs screenshots on both it and the version before)'
+                    : 'No screenshot stored for this version and viewport',
+            });
+        }
+
+        const filename = `v${screenshot.version}-${viewport}${diff ? '-diff' : ''}.png`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        return res.type('png').send(screenshot.image);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Screenshot download error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== GET /competitor/link-graph =====================
+app.get('/competitor/link-graph', async (req: Request, res: Response) => {
+    try {
+        const { site, format, table } = parseLinkGraphQuery(req.query);
+
+        const graph = await getLinkGraph(site);
+        if (!graph) {
+            return res.status(404).json({
+                success: false,
+                error: `No link graph stored for ${site}; run a site crawl with "linkGraph": true first`,
+            });
+        }
+
+        if (format === 'json') {
+            return res.json({ success: true, data: graph });
+        }
+
+        const filename = `${new URL(site).hostname}-links${format === 'csv' ? `-${table}.csv` : '.gexf'}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        if (format === 'gexf') {
+            return res.type('application/gexf+xml').send(toGexf(graph));
+        }
+        return res.type('text/csv').send(table === 'nodes' ? toNodeCsv(graph) : toEdgeCsv(graph));
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
         }
+        console.error('Link graph export error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
 
-        const config: CompetitorCrawlerConfig = {
-            urls,
-            includeSnapshots: includeSnapshots ?? true,
-        };
+// ===================== POST /competitor/gap =====================
+app.post('/competitor/gap', async (req: Request<{}, ApiResponse<ContentGapReport>, ContentGapRequestBody>, res: Response) => {
+    const startTime = Date.now();
 
-        console.log(`Starting competitor crawl for ${urls.length} URLs`);
+    try {
+        const config = parseContentGapConfig(req.body);
 
-        const data = await runCompetitorCrawler(config);
+        console.log(`Starting content gap analysis of ${config.url} against ${config.competitorUrls.length} competitors`);
+
+        const data = await runContentGapCrawler(config);
 
         const executionTime = Date.now() - startTime;
-        console.log(`Competitor crawl completed in ${executionTime}ms`);
+        console.log(`Content gap analysis completed in ${executionTime}ms, ${data.missingTerms.length} missing terms`);
 
         return res.json({
             success: true,
@@ -140,7 +373,10 @@ app.post('/competitor', async (req: Request<{}, ApiResponse<CompetitorResult[]>,
             executionTime,
         });
     } catch (error) {
-        console.error('Competitor crawler error:', error);
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Content gap error:', error);
         return res.status(500).json({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -149,70 +385,63 @@ app.post('/competitor', async (req: Request<{}, ApiResponse<CompetitorResult[]>,
     }
 });
 
-// ===================== POST /reviews =====================
-interface ReviewsRequestBody {
-    sources: Array<{
-        type: 'google' | 'trustpilot' | 'g2';
-        url: string;
-        businessName: string;
-    }>;
-    maxReviewsPerSource?: number;
-}
-
-app.post('/reviews', async (req: Request<{}, ApiResponse<ReviewResult[]>, ReviewsRequestBody>, res: Response) => {
+// ===================== POST /links/check =====================
+app.post('/links/check', async (req: Request<{}, LinkCheckApiResponse, LinkCheckRequestBody>, res: Response) => {
     const startTime = Date.now();
 
     try {
-        const { sources, maxReviewsPerSource } = req.body;
+        const config = parseLinkCheckerConfig(req.body);
 
-        // Validation
-        if (!sources || !Array.isArray(sources) || sources.length === 0) {
-            return res.status(400).json({
-                success: false,
-                error: 'Invalid request: "sources" must be a non-empty array',
-            });
+        console.log(`Starting link check for ${config.urls.length} pages`);
+
+        const { results, ...summaries } = await runLinkChecker(config);
+
+        const executionTime = Date.now() - startTime;
+        console.log(`Link check completed in ${executionTime}ms, checked ${results.length} links`);
+
+        return res.json({
+            success: true,
+            data: results,
+            ...summaries,
+            executionTime,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
         }
+        console.error('Link checker error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            executionTime: Date.now() - startTime,
+        });
+    }
+});
+
+// ===================== POST /reviews =====================
+app.post('/reviews', async (req: Request<{}, ReviewApiResponse, ReviewsRequestBody>, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const config = parseReviewConfig(req.body);
 
-        // Validate each source
-        for (const source of sources) {
-            if (!source.type || !['google', 'trustpilot', 'g2'].includes(source.type)) {
-                return res.status(400).json({
-                    success: false,
-                    error: 'Invalid source type. Must be "google", "trustpilot", or "g2"',
-                });
-            }
-            if (!source.url || typeof source.url !== 'string') {
-                return res.status(400).json({
-                    success: false,
-                    error: 'Each source must have a valid "url" string',
-                });
-            }
-            if (!source.businessName || typeof source.businessName !== 'string') {
-                return res.status(400).json({
-                    success: false,
-                    error: 'Each source must have a valid "businessName" string',
-                });
-            }
-        }
-
-        const config: ReviewCrawlerConfig = {
-            sources,
-            maxReviewsPerSource: maxReviewsPerSource ?? 50,
-        };
-
-        console.log(`Starting review crawl for ${sources.length} sources`);
-
-        const data = await runReviewCrawler(config);
+        console.log(`Starting review crawl for ${config.sources.length} sources`);
+
+        const { results, ...summaries } = await runReviewCrawler(config);
 
         const executionTime = Date.now() - startTime;
         console.log(`Review crawl completed in ${executionTime}ms`);
 
         return res.json({
             success: true,
-            data,
+            data: results,
+            ...summaries,
             executionTime,
         });
     } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
         console.error('Review crawler error:', error);
         return res.status(500).json({
             success: false,
@@ -222,6 +451,267 @@ app.post('/reviews', async (req: Request<{}, ApiResponse<ReviewResult[]>, Review
     }
 });
 
+// ===================== POST /reviews/analyze =====================
+app.post('/reviews/analyze', (req: Request<{}, ApiResponse<ReviewAnalysisReport>, ReviewAnalysisRequestBody>, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+        const reviews = parseReviewAnalysisRequest(req.body);
+
+        return res.json({
+            success: true,
+            data: analyzeReviews(reviews),
+            executionTime: Date.now() - startTime,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Review analysis error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+            executionTime: Date.now() - startTime,
+        });
+    }
+});
+
+// ===================== GET /reviews/trends =====================
+app.get('/reviews/trends', async (req: Request, res: Response) => {
+    try {
+        const { businessName, source, ...options } = parseReviewTrendsQuery(req.query);
+
+        const stored = await listStoredReviews({ businessName, source });
+        if (stored.length === 0) {
+            return res.status(404).json({
+                success: false,
+                error: 'No stored reviews match; crawl the sources with POST /reviews first',
+            });
+        }
+
+        return res.json({ success: true, data: buildReviewTrends(stored, options) });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Review trends error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== JOBS =====================
+interface JobRequestBody {
+    type: CrawlerType;
+    config: unknown;
+}
+
+app.post('/jobs', async (req: Request<{}, ApiResponse<CrawlJob>, JobRequestBody>, res: Response) => {
+    try {
+        const { type, config } = req.body ?? {};
+
+        if (!type || !CRAWLER_TYPES.includes(type)) {
+            return res.status(400).json({
+                success: false,
+                error: `Invalid request: "type" must be one of: ${CRAWLER_TYPES.join(', ')}`,
+            });
+        }
+
+        const job = await submitJob(type, parseCrawlerConfig(type, config));
+        console.log(`Queued ${type} job ${job.id}`);
+
+        return res.status(202).json({
+            success: true,
+            data: job,
+        });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Job submission error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.get('/jobs/:id', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const job = await getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ success: false, error: 'Job not found' });
+        }
+
+        return res.json({ success: true, data: job });
+    } catch (error) {
+        console.error('Job status error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.get('/jobs/:id/results', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const job = await getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ success: false, error: 'Job not found' });
+        }
+
+        const results = await getJobResults(job.id);
+        if (!results) {
+            return res.status(409).json({
+                success: false,
+                error: `Job is ${job.status}, results are not available yet`,
+            });
+        }
+
+        return res.json(results);
+    } catch (error) {
+        console.error('Job results error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.delete('/jobs/:id', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const job = await cancelJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ success: false, error: 'Job not found' });
+        }
+
+        if (job.status !== 'cancelled' && job.status !== 'running') {
+            return res.status(409).json({
+                success: false,
+                error: `Job is already ${job.status}`,
+            });
+        }
+
+        return res.status(202).json({ success: true, data: job });
+    } catch (error) {
+        console.error('Job cancellation error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+// ===================== SCHEDULES =====================
+app.post('/schedules', async (req: Request<{}, ApiResponse<CrawlSchedule>, ScheduleRequestBody>, res: Response) => {
+    try {
+        const schedule = await createSchedule(parseScheduleInput(req.body));
+        console.log(`Created ${schedule.type} schedule ${schedule.id} (${schedule.cron})`);
+
+        return res.status(201).json({ success: true, data: schedule });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Schedule creation error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.get('/schedules', async (_req: Request, res: Response) => {
+    try {
+        return res.json({ success: true, data: await listSchedules() });
+    } catch (error) {
+        console.error('Schedule listing error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.get('/schedules/:id', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const schedule = await getSchedule(req.params.id);
+        if (!schedule) {
+            return res.status(404).json({ success: false, error: 'Schedule not found' });
+        }
+
+        return res.json({ success: true, data: schedule });
+    } catch (error) {
+        console.error('Schedule lookup error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.patch('/schedules/:id', async (req: Request<{ id: string }, ApiResponse<CrawlSchedule>, Partial<ScheduleRequestBody>>, res: Response) => {
+    try {
+        const schedule = await updateSchedule(req.params.id, existing => parseScheduleUpdate(req.body, existing));
+        if (!schedule) {
+            return res.status(404).json({ success: false, error: 'Schedule not found' });
+        }
+
+        return res.json({ success: true, data: schedule });
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Schedule update error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.delete('/schedules/:id', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        if (!await deleteSchedule(req.params.id)) {
+            return res.status(404).json({ success: false, error: 'Schedule not found' });
+        }
+
+        return res.json({ success: true });
+    } catch (error) {
+        console.error('Schedule deletion error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
+app.post('/schedules/:id/run', async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        if (!await getSchedule(req.params.id)) {
+            return res.status(404).json({ success: false, error: 'Schedule not found' });
+        }
+
+        const job = await runSchedule(req.params.id);
+        if (!job) {
+            return res.status(409).json({
+                success: false,
+                error: 'The previous run of this schedule is still queued or running',
+            });
+        }
+
+        return res.status(202).json({ success: true, data: job });
+    } catch (error) {
+        console.error('Schedule run error:', error);
+        return res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+    }
+});
+
 // 404 handler
 app.use((_req: Request, res: Response) => {
     res.status(404).json({
@@ -243,10 +733,37 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 app.listen(PORT, () => {
     console.log(`🚀 Crawler API server running on port ${PORT}`);
     console.log(`📍 Endpoints available:`);
-    console.log(`   POST /serp       - SERP crawler`);
-    console.log(`   POST /competitor - Competitor crawler`);
-    console.log(`   POST /reviews    - Review crawler`);
-    console.log(`   GET  /health     - Health check`);
+    console.log(`   POST /serp                  - SERP crawler`);
+    console.log(`   POST /serp/parse            - Parse saved SERP HTML`);
+    console.log(`   GET  /serp/history          - Rank history per keyword and domain`);
+    console.log(`   GET  /serp/visibility       - Visibility score across keywords`);
+    console.log(`   GET  /proxies/health        - Proxy health report`);
+    console.log(`   POST /competitor            - Competitor crawler`);
+    console.log(`   GET  /competitor/history    - Stored snapshot versions of a URL`);
+    console.log(`   GET  /competitor/diff       - Diff between two snapshot versions`);
+    console.log(`   GET  /competitor/screenshot - Screenshot or visual diff PNG of a snapshot version`);
+    console.log(`   GET  /competitor/link-graph - Internal link graph of a site as JSON, GEXF or CSV`);
+    console.log(`   POST /competitor/gap        - Content gap and term analysis`);
+    console.log(`   POST /links/check           - Broken link and redirect checker`);
+    console.log(`   POST /reviews               - Review crawler`);
+    console.log(`   POST /reviews/analyze       - Sentiment and aspect analysis of reviews`);
+    console.log(`   GET  /reviews/trends        - Review count, rating and negative share per week or month`);
+    console.log(`   POST /jobs                  - Submit async crawl job`);
+    console.log(`   GET  /jobs/:id              - Job status (+ /results, DELETE to cancel)`);
+    console.log(`   POST /schedules             - Create recurring crawl schedule`);
+    console.log(`   GET  /schedules/:id         - Schedule (PATCH to update, DELETE to remove, POST /run to run now)`);
+    console.log(`   GET  /health                - Health check`);
+
+    // Scheduler first, so restored scheduled runs still deliver their webhooks
+    startScheduler()
+        .then(count => {
+            if (count > 0) console.log(`Started ${count} crawl schedules`);
+            return restoreJobs();
+        })
+        .then(count => {
+            if (count > 0) console.log(`Re-queued ${count} interrupted jobs`);
+        })
+        .catch(error => console.error('Failed to start scheduler or restore jobs:', error));
 });
 
 export default app;
\ No newline at end of file
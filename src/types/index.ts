@@ -1,25 +1,337 @@
 // ===================== SERP CRAWLER TYPES =====================
-export interface SerpCrawlerConfig {
-    keywords: string[];
+export type SearchEngine = 'google' | 'bing' | 'duckduckgo';
+
+export type SerpDevice = 'desktop' | 'mobile';
+
+export interface SerpTargeting {
+    /** Two-letter country code, sent as gl= */
+    country?: string;
+    /** Interface language code, sent as hl= */
+    language?: string;
+    /** Canonical location name (e.g. "London,England,United Kingdom"), sent uule-encoded */
+    location?: string;
+    device?: SerpDevice;
+}
+
+export interface SerpKeyword extends SerpTargeting {
+    keyword: string;
+}
+
+export interface ResolvedSerpTargeting {
+    country: string;
+    language: string;
+    location?: string;
+    device: SerpDevice;
+}
+
+export interface SerpCrawlerConfig extends SerpTargeting, PolitenessOptions {
+    /** Plain keywords use the request-level targeting; objects override it per keyword */
+    keywords: Array<string | SerpKeyword>;
     maxResults?: number;
     proxyUrls?: string[];
     minDelay?: number;
     maxDelay?: number;
+    /** Engines to query for every keyword (default: google) */
+    engines?: SearchEngine[];
+    /** Store this run's organic rankings in the rank history */
+    persistHistory?: boolean;
+    /** Domains to report positions and deltas for (e.g. "example.com") */
+    trackedDomains?: string[];
+}
+
+export type SerpResultType =
+    | 'organic'
+    | 'ad'
+    | 'featured_snippet'
+    | 'video'
+    | 'news'
+    | 'image_pack'
+    | 'local_pack';
+
+export type SerpFeature =
+    | Exclude<SerpResultType, 'organic'>
+    | 'people_also_ask'
+    | 'related_searches'
+    | 'knowledge_panel'
+    | 'sitelinks';
+
+export interface Sitelink {
+    title: string;
+    url: string;
 }
 
 export interface SERPResult {
     keyword: string;
+    engine: SearchEngine;
+    resultType: SerpResultType;
+    /** 1-based rank within results of the same resultType, absolute across pages */
     position: number;
     url: string;
     title: string;
     description: string;
+    sitelinks?: Sitelink[];
+    targeting: ResolvedSerpTargeting;
+    /** 1-based results page the result was found on */
+    page: number;
     crawledAt: string;
 }
 
+export interface KnowledgePanel {
+    title: string;
+    subtitle: string;
+    description: string;
+    website: string;
+    attributes: Record<string, string>;
+}
+
+export interface SerpFeatureSummary {
+    keyword: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+    features: SerpFeature[];
+    peopleAlsoAsk: string[];
+    relatedSearches: string[];
+    knowledgePanel: KnowledgePanel | null;
+}
+
+/**
+ * Results of a single SERP page before the crawler assigns absolute positions and run metadata
+ */
+export interface ParsedSerpPage {
+    results: Omit<SERPResult, 'page' | 'targeting' | 'engine'>[];
+    summary: Omit<SerpFeatureSummary, 'targeting' | 'engine'>;
+}
+
+export interface SerpParseOptions {
+    keyword: string;
+    /** Maximum organic results to return from the page */
+    maxResults?: number;
+    /** URL the HTML was loaded from, used to resolve relative links */
+    pageUrl?: string;
+    /** Timestamp stamped on results (defaults to now) */
+    crawledAt?: string;
+}
+
+export type SerpBlockReason = 'captcha' | 'sorry_page' | 'rate_limited' | 'consent_loop' | 'empty_serp';
+
+export interface SerpBlock {
+    reason: SerpBlockReason;
+    message: string;
+}
+
+export interface SerpFailure {
+    keyword: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+    page: number;
+    /** Block classification, or 'error' for failures that were not blocks (timeouts, network errors) */
+    reason: SerpBlockReason | 'error';
+    error: string;
+}
+
+export interface SerpCrawlOutput {
+    results: SERPResult[];
+    features: SerpFeatureSummary[];
+    failures: SerpFailure[];
+    rankings?: DomainRankHistory[];
+    skipped?: SkippedUrl[];
+}
+
+export interface ProxyHealth {
+    /** Proxy URL with the password masked */
+    proxyUrl: string;
+    status: 'healthy' | 'cooling_down' | 'removed';
+    /** Smoothed success ratio between 0 and 1 */
+    score: number;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    blockReasons: Partial<Record<SerpBlockReason | 'error', number>>;
+    lastBlockReason?: SerpBlockReason | 'error';
+    lastUsedAt?: string;
+    cooldownUntil?: string;
+}
+
+// ===================== RANK HISTORY TYPES =====================
+export interface RankHistoryPoint {
+    crawledAt: string;
+    /** Best organic position of the domain in that run, null if it did not rank */
+    position: number | null;
+    url: string | null;
+}
+
+export interface UrlSwitch {
+    crawledAt: string;
+    fromUrl: string;
+    toUrl: string;
+}
+
+export interface DomainRankHistory {
+    keyword: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+    domain: string;
+    history: RankHistoryPoint[];
+    currentPosition: number | null;
+    previousPosition: number | null;
+    /** Positions gained since the previous run (positive = improved), null if either run is unranked */
+    change: number | null;
+    bestPosition: number | null;
+    worstPosition: number | null;
+    urlSwitches: UrlSwitch[];
+}
+
+export interface KeywordVisibility {
+    keyword: string;
+    position: number | null;
+    url: string | null;
+    weight: number;
+}
+
+export interface VisibilityScore {
+    domain: string;
+    engine: SearchEngine;
+    targeting: ResolvedSerpTargeting;
+    /** 0-100: CTR-weighted share of the clicks available across the keyword set */
+    score: number;
+    totalKeywords: number;
+    rankedKeywords: number;
+    keywords: KeywordVisibility[];
+}
+
 // ===================== COMPETITOR CRAWLER TYPES =====================
-export interface CompetitorCrawlerConfig {
+/** "pages" crawls only the given URLs; "site" also discovers pages on each URL's host */
+export type CompetitorCrawlMode = 'pages' | 'site';
+
+export interface CompetitorCrawlerConfig extends PolitenessOptions {
     urls: string[];
     includeSnapshots?: boolean;
+    mode?: CompetitorCrawlMode;
+    /** Site mode: link hops followed from the start URL and sitemap pages */
+    maxDepth?: number;
+    /** Site mode: maximum pages crawled per site */
+    maxPages?: number;
+    /** Site mode: regular expressions; discovered URLs must match at least one */
+    includePatterns?: string[];
+    /** Site mode: regular expressions; discovered URLs matching any are skipped */
+    excludePatterns?: string[];
+    /** Site mode: seed discovery from /sitemap.xml */
+    useSitemap?: boolean;
+    snapshotRetention?: SnapshotRetention;
+    /** Check every link on the crawled pages; an object overrides the link check defaults */
+    checkLinks?: boolean | LinkCheckOptions;
+    /** Capture full-page desktop and mobile screenshots and diff them against the previous version */
+    screenshots?: boolean;
+    /** Named values (prices, plans, CTAs) to extract from matching pages and diff field by field */
+    watch?: WatchTarget[];
+    /** Site mode: record internal links and build each site's link graph */
+    linkGraph?: boolean;
+}
+
+export interface WatchTarget {
+    /** Page the rules apply to; give either this or urlPattern */
+    url?: string;
+    /** Regular expression matched against the full page URL */
+    urlPattern?: string;
+    rules: WatchRule[];
+}
+
+export type WatchValueType = 'text' | 'number';
+
+export interface WatchRule {
+    /** Unique per page; changes are reported under this name */
+    name: string;
+    /** CSS selector of the element; give either this or xpath */
+    selector?: string;
+    xpath?: string;
+    /** Read this attribute instead of the element's text */
+    attribute?: string;
+    /** Regular expression applied to the text; the first capture group (or the whole match) is kept */
+    pattern?: string;
+    /** 'number' parses the value, e.g. "$1,299.00" as 1299 (default 'text') */
+    type?: WatchValueType;
+    /** Number rules: moves smaller than this percentage are not significant */
+    minChangePercent?: number;
+    /** Number rules: moves smaller than this amount are not significant */
+    minChange?: number;
+}
+
+export interface SnapshotRetention {
+    /** Versions kept per URL, oldest pruned first */
+    maxVersions?: number;
+    /** Versions older than this are pruned (the latest is always kept) */
+    maxAgeDays?: number;
+}
+
+export interface HreflangAlternate {
+    hreflang: string;
+    href: string;
+}
+
+export interface RedirectHop {
+    url: string;
+    statusCode: number;
+}
+
+export interface SeoMetadata {
+    title: string;
+    metaDescription: string;
+    canonical: string;
+    robotsMeta: string;
+    /** X-Robots-Tag response header */
+    xRobotsTag: string;
+    hreflang: HreflangAlternate[];
+    openGraph: Record<string, string>;
+    twitter: Record<string, string>;
+    /** schema.org @type values found in JSON-LD blocks */
+    structuredDataTypes: string[];
+    imagesWithoutAlt: number;
+    statusCode: number;
+    finalUrl: string;
+    /** Redirects followed before reaching finalUrl, in order */
+    redirectChain: RedirectHop[];
+    /** <html lang> */
+    language: string;
+}
+
+export type SeoField = keyof SeoMetadata;
+
+export type ChangeImportance = 'high' | 'medium' | 'low';
+
+export interface SeoFieldChange {
+    field: SeoField;
+    importance: ChangeImportance;
+    previous: unknown;
+    current: unknown;
+}
+
+export type ResourceKind = 'document' | 'js' | 'css' | 'image' | 'font' | 'other';
+
+export interface ResourceWeight {
+    requests: number;
+    /** Bytes on the wire (encoded body plus headers) */
+    transferSize: number;
+}
+
+export interface ThirdPartyDomain {
+    domain: string;
+    requests: number;
+    transferSize: number;
+}
+
+/** Lab metrics from a single page load; timings in milliseconds */
+export interface PerformanceMetrics {
+    ttfb: number | null;
+    fcp: number | null;
+    lcp: number | null;
+    cls: number;
+    /** Long-task time beyond 50ms after FCP, until the page was captured */
+    totalBlockingTime: number;
+    domElements: number;
+    requestCount: number;
+    transferSize: number;
+    byType: Record<ResourceKind, ResourceWeight>;
+    thirdPartyDomains: ThirdPartyDomain[];
 }
 
 export interface PageContent {
@@ -33,14 +345,142 @@ export interface PageContent {
     images: number;
     internalLinks: number;
     externalLinks: number;
+    seo: SeoMetadata;
+    performance: PerformanceMetrics;
+    /** Screenshots stored with this version (absent unless screenshots were requested) */
+    screenshots?: ScreenshotInfo[];
+    /** Values extracted by the watch rules matching this page (absent when none match) */
+    watched?: WatchedValue[];
     crawledAt: string;
 }
 
+export interface WatchedValue {
+    name: string;
+    type: WatchValueType;
+    /** Null when the element is missing, the pattern does not match or the number does not parse */
+    value: string | number | null;
+    /** Text read from the page before the pattern and number parsing */
+    raw: string | null;
+    /** Significance thresholds of the rule, kept so stored versions can be diffed later */
+    minChangePercent?: number;
+    minChange?: number;
+    /** Why the rule could not be evaluated, e.g. an invalid selector */
+    error?: string;
+}
+
+export type ScreenshotViewport = 'desktop' | 'mobile';
+
+export interface ScreenshotInfo {
+    viewport: ScreenshotViewport;
+    width: number;
+    height: number;
+    /** The page was taller than the capture limit and was cut off */
+    truncated: boolean;
+}
+
+export type HeadingLevel = 'h1' | 'h2' | 'h3';
+
+export interface HeadingDiff {
+    added: string[];
+    removed: string[];
+    /** Headings kept on the page but moved relative to the others */
+    reordered: string[];
+}
+
+export interface ParagraphChange {
+    type: 'added' | 'removed' | 'modified';
+    previous?: string;
+    current?: string;
+    addedSentences: string[];
+    removedSentences: string[];
+}
+
+export interface CountChange {
+    previous: number;
+    current: number;
+    diff: number;
+}
+
+export type ChangeSeverity = 'none' | 'minor' | 'moderate' | 'major';
+
+export type PerformanceMetricName =
+    | 'ttfb'
+    | 'fcp'
+    | 'lcp'
+    | 'cls'
+    | 'totalBlockingTime'
+    | 'domElements'
+    | 'requestCount'
+    | 'transferSize'
+    | 'jsSize'
+    | 'cssSize'
+    | 'imageSize'
+    | 'fontSize'
+    | 'thirdPartyDomains';
+
+export interface MetricChange {
+    metric: PerformanceMetricName;
+    previous: number | null;
+    current: number | null;
+    /** Lower is better for every metric; changes within run-to-run noise are 'unchanged' */
+    direction: 'improved' | 'regressed' | 'unchanged';
+}
+
+export interface PerformanceChange {
+    /** From the timing metrics (TTFB, FCP, LCP, CLS, TBT) */
+    speed: 'faster' | 'slower' | 'mixed' | 'unchanged';
+    /** From total transfer size */
+    weight: 'heavier' | 'lighter' | 'unchanged';
+    metrics: MetricChange[];
+    thirdPartyDomainsAdded: string[];
+    thirdPartyDomainsRemoved: string[];
+}
+
+export interface VisualChange {
+    viewport: ScreenshotViewport;
+    changedPixels: number;
+    totalPixels: number;
+    /** Changed share of the larger screenshot, 0-100 */
+    changedPercent: number;
+}
+
+/** 'new-rule' marks a value the previous snapshot was not watching yet */
+export type WatchedChangeKind = 'changed' | 'appeared' | 'disappeared' | 'new-rule';
+
+export interface WatchedValueChange {
+    name: string;
+    kind: WatchedChangeKind;
+    previous: string | number | null;
+    current: string | number | null;
+    /** Number values: relative move in percent (null when either side is missing or the previous is 0) */
+    changePercent: number | null;
+    /** Beats the rule's thresholds; text changes and values appearing or disappearing always count */
+    significant: boolean;
+}
+
 export interface ContentChange {
     headingsChanged: boolean;
     contentChanged: boolean;
     wordCountDiff: number;
     structureChanged: boolean;
+    /** Changed SEO fields, most important first (empty when the previous snapshot predates SEO capture) */
+    seoChanges: SeoFieldChange[];
+    headings: Record<HeadingLevel, HeadingDiff>;
+    paragraphs: ParagraphChange[];
+    internalLinks: CountChange;
+    externalLinks: CountChange;
+    images: CountChange;
+    /** Null when the previous snapshot predates performance capture */
+    performance: PerformanceChange | null;
+    /** Pixel diffs against the previous version's screenshots (empty when either has none) */
+    visual: VisualChange[];
+    /** Watched values that differ from the previous snapshot's */
+    watched: WatchedValueChange[];
+    /** 0-100, weighted by how much each kind of change matters for SEO */
+    severityScore: number;
+    severity: ChangeSeverity;
+    /** One-line description for client reports */
+    summary: string;
 }
 
 export interface CompetitorResult {
@@ -49,10 +489,265 @@ export interface CompetitorResult {
     currentSnapshot: PageContent;
     changes: ContentChange;
     hasChanges: boolean;
+    /** Stored version this crawl was recorded as (absent when includeSnapshots is false) */
+    snapshotVersion?: number;
+    /** Site mode: origin of the site the page belongs to */
+    site?: string;
+    /** Site mode: link hops from the start URL or sitemap */
+    depth?: number;
+}
+
+export interface SiteCrawlSummary {
+    site: string;
+    pagesCrawled: number;
+    /** Pages not in the previous site crawl (empty on the first crawl) */
+    pagesAdded: string[];
+    /** Pages from the previous site crawl that were not found this time */
+    pagesRemoved: string[];
+    pagesChanged: string[];
+    /** Discovery stopped at maxPages or was cancelled, so removals are not reported */
+    truncated: boolean;
+    previousCrawledAt: string | null;
+    crawledAt: string;
+    /** Present when linkGraph was requested; the full graph is stored for export */
+    linkGraph?: LinkGraphSummary;
+}
+
+// ===================== LINK GRAPH TYPES =====================
+export interface LinkGraphNode {
+    url: string;
+    /** Clicks from the nearest start URL; null when no crawled page links to it */
+    depth: number | null;
+    /** Distinct pages linking here */
+    inbound: number;
+    /** Distinct pages linked from here */
+    outbound: number;
+    /** Share of PageRank over followed links; all nodes sum to 1 */
+    pageRank: number;
+    /** Linked pages outside the crawl (excluded, over maxPages or past maxDepth) are nodes too */
+    crawled: boolean;
+    inSitemap: boolean;
+}
+
+export interface LinkGraphEdge {
+    source: string;
+    target: string;
+    /** Distinct links from source to target */
+    count: number;
+    anchorTexts: string[];
+    /** Every link from source to target is nofollow */
+    nofollow: boolean;
+}
+
+export interface LinkGraph {
+    site: string;
+    startUrls: string[];
+    crawledAt: string;
+    /** The crawl stopped early, so some links are missing and orphan candidates are less reliable */
+    truncated: boolean;
+    /** Highest PageRank first */
+    nodes: LinkGraphNode[];
+    edges: LinkGraphEdge[];
+    /** Sitemap pages no crawled page links to */
+    orphanCandidates: string[];
+}
+
+export interface LinkGraphSummary {
+    nodes: number;
+    edges: number;
+    /** Deepest click depth of a reachable page */
+    maxDepth: number;
+    topPages: Array<{ url: string; pageRank: number }>;
+    orphanCandidates: string[];
+}
+
+export type LinkGraphFormat = 'json' | 'gexf' | 'csv';
+
+/** One stored version of a page; unchanged crawls extend lastSeenAt instead of adding a version */
+export interface SnapshotVersion {
+    version: number;
+    crawledAt: string;
+    lastSeenAt: string;
+    contentHash: string;
+    /** Change summary against the version before it */
+    summary: string;
+    severity: ChangeSeverity;
+}
+
+export interface SnapshotHistory {
+    url: string;
+    versions: SnapshotVersion[];
+}
+
+export interface SnapshotDiff {
+    url: string;
+    from: SnapshotVersion;
+    to: SnapshotVersion;
+    changes: ContentChange;
+}
+
+export interface CompetitorCrawlOutput {
+    results: CompetitorResult[];
+    sites?: SiteCrawlSummary[];
+    links?: LinkCheckReport;
+    skipped?: SkippedUrl[];
+}
+
+// ===================== CONTENT GAP TYPES =====================
+export interface ContentGapConfig extends PolitenessOptions {
+    /** Our page */
+    url: string;
+    competitorUrls: string[];
+    /** Longest phrase analysed, in words (1-3) */
+    maxNgram?: number;
+    /** Entries returned in each term and heading topic list */
+    maxTerms?: number;
+    /** Competitors that must use a term before our page is reported as missing it */
+    minCompetitors?: number;
+}
+
+export interface TermScore {
+    term: string;
+    /** Words in the term */
+    n: number;
+    count: number;
+    /** Occurrences per 1,000 words */
+    frequency: number;
+    /** Frequency weighted by inverse document frequency across the analysed pages */
+    tfidf: number;
+}
+
+export interface PageTermProfile {
+    url: string;
+    /** Words in the main content, excluding navigation, header, footer and sidebars */
+    wordCount: number;
+    headings: Record<HeadingLevel, string[]>;
+    topTerms: TermScore[];
+}
+
+export interface ContentGapTerm {
+    term: string;
+    n: number;
+    competitors: string[];
+    /** Averages across the competitors using the term */
+    averageCount: number;
+    averageFrequency: number;
+    averageTfidf: number;
+}
+
+export interface HeadingTopic {
+    heading: string;
+    level: HeadingLevel;
+    /** Competitors with a heading on this topic */
+    competitors: string[];
+    /** Share of the heading's terms found anywhere on our page (0-1) */
+    coverage: number;
+    /** At least half of the heading's terms appear in one of our headings */
+    inOurHeadings: boolean;
+    missingTerms: string[];
+}
+
+export interface WordCountBenchmark {
+    ours: number;
+    competitorMin: number;
+    competitorMax: number;
+    competitorAverage: number;
+    competitorMedian: number;
+    /** Our word count minus the competitor median */
+    differenceFromMedian: number;
+}
+
+export interface ContentGapReport {
+    page: PageTermProfile;
+    competitors: PageTermProfile[];
+    /** Terms competitors use that our page never mentions */
+    missingTerms: ContentGapTerm[];
+    headingTopics: HeadingTopic[];
+    wordCount: WordCountBenchmark;
+    /** Competitor pages that could not be loaded and were left out */
+    failedUrls: string[];
+    skipped?: SkippedUrl[];
+}
+
+// ===================== LINK CHECKER TYPES =====================
+export type LinkSource = 'anchor' | 'canonical' | 'hreflang' | 'image';
+
+export interface LinkCheckOptions {
+    /** Links checked at the same time */
+    concurrency?: number;
+    /** Per-request timeout */
+    timeoutMs?: number;
+    /** Redirect chains with more hops than this are reported as long */
+    maxRedirectHops?: number;
+    /** Also check links to other hosts */
+    checkExternal?: boolean;
+}
+
+export interface LinkCheckerConfig extends LinkCheckOptions, PolitenessOptions {
+    urls: string[];
+}
+
+/** A link as found on a page */
+export interface PageLink {
+    url: string;
+    source: LinkSource;
+    /** Anchor text, image alt text or the hreflang code */
+    text: string;
+    /** Anchors: rel="nofollow" */
+    nofollow?: boolean;
+}
+
+export interface LinkOccurrence {
+    foundOn: string;
+    source: LinkSource;
+    text: string;
+    /** An http:// link on an https:// page */
+    mixedContent: boolean;
+}
+
+export type LinkIssue =
+    | 'client-error'
+    | 'server-error'
+    | 'unreachable'
+    | 'redirect-loop'
+    | 'long-redirect-chain'
+    | 'mixed-content';
+
+export interface LinkCheckResult {
+    url: string;
+    /** Same host as the page it was found on */
+    internal: boolean;
+    /** Status of the last response, null if no response was received */
+    statusCode: number | null;
+    finalUrl: string;
+    redirectChain: RedirectHop[];
+    /** GET is used when the server rejects or fails HEAD */
+    method: 'HEAD' | 'GET';
+    issues: LinkIssue[];
+    error?: string;
+    occurrences: LinkOccurrence[];
+}
+
+export interface LinkCheckSummary {
+    pagesChecked: number;
+    /** Pages that could not be loaded, so their links were not checked */
+    failedPages: string[];
+    linksChecked: number;
+    brokenLinks: number;
+    redirectedLinks: number;
+    issues: Record<LinkIssue, number>;
+}
+
+export interface LinkCheckReport {
+    results: LinkCheckResult[];
+    summary: LinkCheckSummary;
+    /** Pages robots.txt ruled out; links are checked regardless */
+    skipped?: SkippedUrl[];
 }
 
 // ===================== REVIEW CRAWLER TYPES =====================
-export type ReviewSourceType = 'google' | 'trustpilot' | 'g2';
+/** 'schema-org' reads schema.org Review markup from any site */
+export type ReviewSourceType = 'google' | 'trustpilot' | 'g2' | 'capterra' | 'yelp' | 'app-store' | 'schema-org';
 
 export interface ReviewSource {
     type: ReviewSourceType;
@@ -60,27 +755,300 @@ export interface ReviewSource {
     businessName: string;
 }
 
-export interface ReviewCrawlerConfig {
+export interface ReviewCrawlerConfig extends PolitenessOptions {
     sources: ReviewSource[];
     maxReviewsPerSource?: number;
+    /** Crawl newest first and stop at the first review seen in an earlier crawl, returning only new reviews */
+    incremental?: boolean;
+    /** Add sentiment and aspect analysis to each result (default true) */
+    analyze?: boolean;
 }
 
 export interface Review {
+    /** The platform's review ID, or a hash of the reviewer, rating and text when the page has none */
+    reviewId: string;
     source: ReviewSourceType;
     businessName: string;
     reviewerName: string;
     rating: number;
     reviewText: string;
+    /** The date as the site shows it, e.g. an ISO timestamp or "2 weeks ago" */
     reviewDate: string;
+    /** reviewDate as an ISO date (YYYY-MM-DD); relative dates are resolved against crawledAt */
+    publishedDate: string | null;
+    /** ISO 639-1 code detected from the review text, or null when too short to tell */
+    language: string | null;
     crawledAt: string;
+    /** The business's reply; null when there is none or the platform does not show replies */
+    ownerResponse: ReviewOwnerResponse | null;
+    /** What the platform shows about the reviewer, when anything */
+    reviewer?: ReviewerDetails;
+    sentiment?: ReviewSentiment;
+}
+
+export interface ReviewOwnerResponse {
+    text: string;
+    /** The reply date as the site shows it */
+    responseDate: string;
+    /** responseDate as an ISO date (YYYY-MM-DD) */
+    publishedDate: string | null;
+}
+
+export interface ReviewerDetails {
+    /** Reviews the reviewer has written on the platform */
+    reviewCount?: number;
+    /** Set only when the page states it: true for a verified badge, false for an explicit unverified label */
+    verified?: boolean;
+    /** Country as the platform shows it (a code on Trustpilot, a name elsewhere) */
+    country?: string;
 }
 
 export interface ReviewResult {
     source: ReviewSourceType;
     businessName: string;
     reviews: Review[];
+    /** Average of the scraped reviews */
     averageRating: number;
+    /** Number of scraped reviews (in incremental mode, the new ones) */
     totalReviews: number;
+    /** Review count the platform reports, when the page shows it */
+    platformTotalReviews: number | null;
+    /** Average rating the platform reports, when the page shows it */
+    platformAverageRating: number | null;
+    pagesCrawled: number;
+    /** Incremental mode: a review from an earlier crawl was reached, so every newer review was collected */
+    reachedPreviousCrawl?: boolean;
+    analysis?: ReviewAnalysis;
+    /** Null when the platform does not show business replies */
+    responses: ReviewResponseStats | null;
+}
+
+export interface UnansweredReview {
+    reviewId: string;
+    reviewerName: string;
+    rating: number;
+    publishedDate: string | null;
+}
+
+export interface ReviewResponseStats {
+    /** Share of the scraped reviews with a business reply (0-1) */
+    responseRate: number;
+    respondedReviews: number;
+    /** Median days from review to reply, over replies with both dates known */
+    medianResponseDays: number | null;
+    /** Negative reviews (negative sentiment or 2 stars or lower) without a reply, newest first */
+    unansweredNegative: UnansweredReview[];
+}
+
+export interface ReviewCrawlOutput {
+    results: ReviewResult[];
+    skipped?: SkippedUrl[];
+}
+
+// ===================== REVIEW ANALYSIS TYPES =====================
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface ReviewAspectSentiment {
+    aspect: ReviewAspect;
+    /** -1 (negative) to 1 (positive) */
+    score: number;
+    label: SentimentLabel;
+}
+
+export interface ReviewSentiment {
+    /** -1 (negative) to 1 (positive); from the star rating when the text carries no sentiment words */
+    score: number;
+    label: SentimentLabel;
+    aspects: ReviewAspectSentiment[];
+}
+
+export type ReviewAspect =
+    | 'support'
+    | 'pricing'
+    | 'onboarding'
+    | 'usability'
+    | 'performance'
+    | 'features'
+    | 'delivery'
+    | 'quality';
+
+export interface SentimentCounts {
+    positive: number;
+    neutral: number;
+    negative: number;
+}
+
+export interface ReviewAspectSummary extends SentimentCounts {
+    aspect: ReviewAspect;
+    /** Reviews mentioning the aspect */
+    mentions: number;
+    averageScore: number;
+    label: SentimentLabel;
+}
+
+export interface ComplaintPhrase {
+    phrase: string;
+    /** Negative reviews using the phrase */
+    count: number;
+}
+
+export interface ReviewAnalysis {
+    sentiment: SentimentCounts & { averageScore: number };
+    /** Aspects mentioned at least once, most mentioned first */
+    aspects: ReviewAspectSummary[];
+    /** Phrases repeated across negative reviews (sentiment negative or rated 2 stars or lower) */
+    complaints: ComplaintPhrase[];
+    /** Reviews per star rating (rounded); unrated reviews are left out */
+    ratingDistribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+}
+
+export interface ReviewAnalysisReport {
+    reviews: Review[];
+    analysis: ReviewAnalysis;
+}
+
+// ===================== REVIEW TREND TYPES =====================
+export type ReviewTrendInterval = 'week' | 'month';
+
+export interface ReviewTrendBucket {
+    /** "2024-03" for months, ISO week "2024-W09" for weeks */
+    period: string;
+    /** First day of the period (weeks start on Monday) */
+    start: string;
+    count: number;
+    /** Null for periods without rated reviews */
+    averageRating: number | null;
+    /** Share of the period's reviews that are negative (0-1), null for empty periods */
+    negativeShare: number | null;
+}
+
+export interface ReviewTrendSeries {
+    businessName: string;
+    source: ReviewSourceType;
+    url: string;
+    interval: ReviewTrendInterval;
+    /** Stored reviews with a published date in the requested range */
+    totalReviews: number;
+    /** Stored reviews whose date could not be normalized; not in any bucket */
+    undatedReviews: number;
+    /** Every period from the first to the last review, empty ones included */
+    buckets: ReviewTrendBucket[];
+}
+
+// ===================== POLITENESS TYPES =====================
+export interface PolitenessOptions {
+    /** Skip URLs robots.txt disallows (default true, except SERP crawls); turn off for our own sites */
+    respectRobotsTxt?: boolean;
+    /** User agent token matched against robots.txt groups */
+    robotsUserAgent?: string;
+    /** Minimum gap between requests to one host, across all crawls; a longer Crawl-delay wins */
+    hostDelayMs?: number;
+}
+
+export type SkipReason = 'robots-disallowed' | 'robots-unavailable';
+
+export interface SkippedUrl {
+    url: string;
+    reason: SkipReason;
+    detail: string;
+}
+
+// ===================== CRAWLER RUN OPTIONS =====================
+export interface CrawlProgress {
+    completed: number;
+    total: number;
+}
+
+export interface CrawlerRunOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: CrawlProgress) => void;
+}
+
+// ===================== JOB TYPES =====================
+export type CrawlerType = 'serp' | 'competitor' | 'reviews';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type CrawlerConfigMap = {
+    serp: SerpCrawlerConfig;
+    competitor: CompetitorCrawlerConfig;
+    reviews: ReviewCrawlerConfig;
+};
+
+export type CrawlerResultMap = {
+    serp: SerpCrawlOutput;
+    competitor: CompetitorCrawlOutput;
+    reviews: ReviewCrawlOutput;
+};
+
+export interface CrawlJob<T extends CrawlerType = CrawlerType> {
+    id: string;
+    type: T;
+    status: JobStatus;
+    config: CrawlerConfigMap[T];
+    progress: CrawlProgress;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    error?: string;
+    /** Set when the job was started by a schedule */
+    scheduleId?: string;
+}
+
+// ===================== SCHEDULER TYPES =====================
+/** "always" posts every run; "notable" only runs that failed or found something worth reporting */
+export type WebhookTrigger = 'always' | 'notable';
+
+export interface WebhookConfig {
+    url: string;
+    /** Signs each delivery with HMAC-SHA256 (X-Webhook-Signature header) */
+    secret?: string;
+    notifyOn?: WebhookTrigger;
+    /** Positions a tracked domain must lose for a SERP run to count as notable */
+    rankDropThreshold?: number;
+}
+
+export interface WebhookDelivery {
+    jobId: string;
+    status: 'delivered' | 'failed' | 'skipped';
+    attempts: number;
+    responseStatus?: number;
+    error?: string;
+    /** Notable events found in the run */
+    events: string[];
+    at: string;
+}
+
+export interface CrawlScheduleInput<T extends CrawlerType = CrawlerType> {
+    name?: string;
+    type: T;
+    config: CrawlerConfigMap[T];
+    /** Five-field cron expression, e.g. "0 6 * * 1" */
+    cron: string;
+    /** IANA time zone for the cron expression (defaults to the server's) */
+    timezone?: string;
+    enabled: boolean;
+    webhook?: WebhookConfig;
+}
+
+export interface CrawlSchedule<T extends CrawlerType = CrawlerType> extends CrawlScheduleInput<T> {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    nextRunAt?: string | null;
+    lastRunAt?: string;
+    lastJobId?: string;
+    lastDelivery?: WebhookDelivery;
+}
+
+export interface WebhookPayload {
+    event: 'crawl.completed' | 'crawl.failed' | 'crawl.cancelled';
+    scheduleId: string;
+    scheduleName?: string;
+    job: CrawlJob;
+    notable: boolean;
+    events: string[];
+    result: ApiResponse<unknown>;
 }
 
 // ===================== API RESPONSE TYPES =====================
@@ -90,3 +1058,25 @@ export interface ApiResponse<T> {
     error?: string;
     executionTime?: number;
 }
+
+export interface SerpApiResponse extends ApiResponse<SERPResult[]> {
+    features?: SerpFeatureSummary[];
+    failures?: SerpFailure[];
+    rankings?: DomainRankHistory[];
+    skipped?: SkippedUrl[];
+}
+
+export interface CompetitorApiResponse extends ApiResponse<CompetitorResult[]> {
+    sites?: SiteCrawlSummary[];
+    links?: LinkCheckReport;
+    skipped?: SkippedUrl[];
+}
+
+export interface LinkCheckApiResponse extends ApiResponse<LinkCheckResult[]> {
+    summary?: LinkCheckSummary;
+    skipped?: SkippedUrl[];
+}
+
+export interface ReviewApiResponse extends ApiResponse<ReviewResult[]> {
+    skipped?: SkippedUrl[];
+}
@@ -0,0 +1,949 @@
+import type {
+    SerpCrawlerConfig,
+    CompetitorCrawlerConfig,
+    ReviewCrawlerConfig,
+    CrawlerType,
+    CrawlerConfigMap,
+    SerpKeyword,
+    SerpTargeting,
+    SearchEngine,
+    ResolvedSerpTargeting,
+    CompetitorCrawlMode,
+    SnapshotRetention,
+    CrawlScheduleInput,
+    WebhookConfig,
+    LinkCheckOptions,
+    LinkCheckerConfig,
+    ContentGapConfig,
+    ScreenshotViewport,
+    PolitenessOptions,
+    WatchTarget,
+    WatchRule,
+    LinkGraphFormat,
+    ReviewSource,
+    ReviewSourceType,
+    Review,
+} from '../types/index.js';
+import { Cron } from 'croner';
+import { MAX_SERP_RESULTS, resolveTargeting } from '../crawlers/serp-crawler.js';
+import { SEARCH_ENGINES, MAX_UULE_LOCATION_BYTES } from '../crawlers/search-engines/index.js';
+import { MAX_SITE_PAGES, MAX_SITE_DEPTH } from '../crawlers/competitor-crawler.js';
+import { MAX_WATCH_RULES } from '../crawlers/watch-rules.js';
+import { MAX_SNAPSHOT_VERSIONS } from '../history/snapshot-history.js';
+import { MAX_LINK_CONCURRENCY, MAX_LINK_TIMEOUT_MS, MAX_REDIRECT_HOPS } from '../crawlers/link-status.js';
+import { MAX_GAP_COMPETITORS, MAX_GAP_NGRAM, MAX_GAP_TERMS } from '../crawlers/content-gap-crawler.js';
+import { MAX_HOST_DELAY_MS } from '../politeness/politeness.js';
+import { MAX_REVIEWS_PER_SOURCE } from '../crawlers/review-crawler.js';
+import { MAX_ANALYZED_REVIEWS } from '../analysis/review-analysis.js';
+import type { ReviewTrendOptions } from '../analysis/review-trends.js';
+import type { StoredReviewFilter } from '../history/review-history.js';
+import { REVIEW_SOURCE_TYPES, detectReviewSourceType, getReviewSourceAdapter } from '../crawlers/review-sources/index.js';
+
+/**
+ * Thrown when a request body fails validation (mapped to HTTP 400)
+ */
+export class ValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+// ===================== REQUEST BODIES =====================
+export interface SerpRequestBody extends SerpTargeting, PolitenessOptions {
+    keywords: Array<string | SerpKeyword>;
+    maxResults?: number;
+    proxyUrls?: string[];
+    minDelay?: number;
+    maxDelay?: number;
+    engines?: SearchEngine[];
+    persistHistory?: boolean;
+    trackedDomains?: string[];
+}
+
+export interface SerpParseRequestBody extends SerpTargeting {
+    html: string;
+    keyword: string;
+    engine?: SearchEngine;
+    maxResults?: number;
+    /** URL the HTML was saved from, used to resolve relative links */
+    pageUrl?: string;
+    /** Results page number the HTML came from */
+    page?: number;
+}
+
+export interface SerpParseRequest {
+    html: string;
+    keyword: string;
+    engine: SearchEngine;
+    maxResults: number;
+    page: number;
+    pageUrl?: string;
+    targeting: ResolvedSerpTargeting;
+}
+
+export interface CompetitorRequestBody extends PolitenessOptions {
+    urls: string[];
+    includeSnapshots?: boolean;
+    mode?: CompetitorCrawlMode;
+    maxDepth?: number;
+    maxPages?: number;
+    includePatterns?: string[];
+    excludePatterns?: string[];
+    useSitemap?: boolean;
+    snapshotRetention?: SnapshotRetention;
+    checkLinks?: boolean | LinkCheckOptions;
+    screenshots?: boolean;
+    watch?: WatchTarget[];
+    linkGraph?: boolean;
+}
+
+export interface LinkCheckRequestBody extends LinkCheckOptions, PolitenessOptions {
+    urls: string[];
+}
+
+export interface ContentGapRequestBody extends PolitenessOptions {
+    url: string;
+    competitorUrls: string[];
+    maxNgram?: number;
+    maxTerms?: number;
+    minCompetitors?: number;
+}
+
+export interface SnapshotDiffQuery {
+    url: string;
+    from?: number;
+    to?: number;
+}
+
+export interface ScreenshotQuery {
+    url: string;
+    viewport: ScreenshotViewport;
+    version?: number;
+    diff: boolean;
+}
+
+export interface LinkGraphQuery {
+    /** Origin of the site, e.g. https://example.com */
+    site: string;
+    format: LinkGraphFormat;
+    /** CSV only: the edge list or the node table */
+    table: 'edges' | 'nodes';
+}
+
+/** Stored reviews to bucket: optional business and source filters, interval and date range */
+export type ReviewTrendsQuery = StoredReviewFilter & ReviewTrendOptions;
+
+export interface ReviewsRequestBody extends PolitenessOptions {
+    sources: Array<{
+        /** Detected from the URL when left out; unknown sites use 'schema-org' */
+        type?: ReviewSourceType;
+        url: string;
+        businessName: string;
+    }>;
+    maxReviewsPerSource?: number;
+    incremental?: boolean;
+    analyze?: boolean;
+}
+
+export interface ReviewAnalysisRequestBody {
+    reviews: Review[];
+}
+
+export interface ScheduleRequestBody {
+    name?: string | null;
+    type: CrawlerType;
+    config: unknown;
+    cron: string;
+    timezone?: string | null;
+    enabled?: boolean;
+    webhook?: WebhookConfig | null;
+}
+
+export const CRAWLER_TYPES: CrawlerType[] = ['serp', 'competitor', 'reviews'];
+
+/**
+ * Validates SERP targeting fields (request-level or per keyword)
+ */
+function validateSerpTargeting(targeting: SerpTargeting, context: string): void {
+    const { country, language, location, device } = targeting;
+
+    if (country !== undefined && (typeof country !== 'string' || !/^[a-zA-Z]{2}$/.test(country))) {
+        throw new ValidationError(`Invalid ${context}: "country" must be a two-letter country code`);
+    }
+    if (language !== undefined && (typeof language !== 'string' || !/^[a-zA-Z]{2,3}(-[a-zA-Z]{2,4})?$/.test(language))) {
+        throw new ValidationError(`Invalid ${context}: "language" must be a language code such as "en" or "pt-BR"`);
+    }
+    if (location !== undefined) {
+        if (typeof location !== 'string' || location.trim() === '') {
+            throw new ValidationError(`Invalid ${context}: "location" must be a non-empty string`);
+        }
+        if (Buffer.byteLength(location, 'utf8') > MAX_UULE_LOCATION_BYTES) {
+            throw new ValidationError(`Invalid ${context}: "location" must be at most ${MAX_UULE_LOCATION_BYTES} bytes`);
+        }
+    }
+    if (device !== undefined && device !== 'desktop' && device !== 'mobile') {
+        throw new ValidationError(`Invalid ${context}: "device" must be "desktop" or "mobile"`);
+    }
+}
+
+/**
+ * Validates a SERP request body and applies defaults
+ */
+export function parseSerpConfig(body: SerpRequestBody): SerpCrawlerConfig {
+    const {
+        keywords,
+        maxResults,
+        proxyUrls,
+        minDelay,
+        maxDelay,
+        engines,
+        persistHistory,
+        trackedDomains,
+        country,
+        language,
+        location,
+        device,
+        ...politeness
+    } = body ?? {};
+
+    if (!keywords || !Array.isArray(keywords) || keywords.length === 0) {
+        throw new ValidationError('Invalid request: "keywords" must be a non-empty array of strings');
+    }
+
+    for (const entry of keywords) {
+        if (typeof entry === 'string') continue;
+        if (!entry || typeof entry !== 'object' || typeof entry.keyword !== 'string') {
+            throw new ValidationError('Invalid request: each keyword must be a string or an object with a "keyword" string');
+        }
+        validateSerpTargeting(entry, `keyword "${entry.keyword}"`);
+    }
+
+    validateSerpTargeting({ country, language, location, device }, 'request');
+
+    if (engines !== undefined) {
+        if (!Array.isArray(engines) || engines.length === 0 || !engines.every(e => SEARCH_ENGINES.includes(e))) {
+            throw new ValidationError(`Invalid request: "engines" must be a non-empty array of: ${SEARCH_ENGINES.join(', ')}`);
+        }
+    }
+
+    if (trackedDomains !== undefined && (!Array.isArray(trackedDomains) || !trackedDomains.every(d => typeof d === 'string' && d.trim()))) {
+        throw new ValidationError('Invalid request: "trackedDomains" must be an array of domain strings');
+    }
+
+    if (maxResults !== undefined && (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_SERP_RESULTS)) {
+        throw new ValidationError(`Invalid request: "maxResults" must be an integer between 1 and ${MAX_SERP_RESULTS}`);
+    }
+
+    return {
+        keywords,
+        country,
+        language,
+        location,
+        device,
+        maxResults: maxResults ?? 10,
+        proxyUrls: proxyUrls ?? undefined,
+        minDelay: minDelay ?? 3000,
+        maxDelay: maxDelay ?? 8000,
+        engines: engines ? Array.from(new Set(engines)) : ['google'],
+        persistHistory: persistHistory === true,
+        trackedDomains,
+        ...parsePolitenessOptions(politeness),
+    };
+}
+
+/**
+ * Validates a saved-SERP parse request
+ */
+export function parseSerpParseRequest(body: SerpParseRequestBody): SerpParseRequest {
+    const { html, keyword, engine = 'google', maxResults, pageUrl, page, country, language, location, device } = body ?? {};
+
+    if (!html || typeof html !== 'string') {
+        throw new ValidationError('Invalid request: "html" must be a non-empty string');
+    }
+    if (!keyword || typeof keyword !== 'string') {
+        throw new ValidationError('Invalid request: "keyword" must be a non-empty string');
+    }
+    if (!SEARCH_ENGINES.includes(engine)) {
+        throw new ValidationError(`Invalid request: "engine" must be one of: ${SEARCH_ENGINES.join(', ')}`);
+    }
+    if (maxResults !== undefined && (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_SERP_RESULTS)) {
+        throw new ValidationError(`Invalid request: "maxResults" must be an integer between 1 and ${MAX_SERP_RESULTS}`);
+    }
+    if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+        throw new ValidationError('Invalid request: "page" must be a positive integer');
+    }
+    if (pageUrl !== undefined) {
+        try {
+            new URL(pageUrl);
+        } catch {
+            throw new ValidationError(`Invalid URL: "${pageUrl}"`);
+        }
+    }
+
+    const targeting = { country, language, location, device };
+    validateSerpTargeting(targeting, 'request');
+
+    return {
+        html,
+        keyword,
+        engine,
+        maxResults: maxResults ?? MAX_SERP_RESULTS,
+        page: page ?? 1,
+        pageUrl,
+        targeting: resolveTargeting(targeting),
+    };
+}
+
+/**
+ * Validates the engine and targeting query parameters that identify a rank history series
+ */
+export function parseSerpScope(query: Record<string, unknown>): { engine: SearchEngine; targeting: ResolvedSerpTargeting } {
+    const pick = (name: string): string | undefined =>
+        typeof query[name] === 'string' ? query[name] as string : undefined;
+
+    const engine = (pick('engine') ?? 'google') as SearchEngine;
+    if (!SEARCH_ENGINES.includes(engine)) {
+        throw new ValidationError(`Invalid query: "engine" must be one of: ${SEARCH_ENGINES.join(', ')}`);
+    }
+
+    const targeting: SerpTargeting = {
+        country: pick('country'),
+        language: pick('language'),
+        location: pick('location'),
+        device: pick('device') as SerpTargeting['device'],
+    };
+    validateSerpTargeting(targeting, 'query');
+
+    return { engine, targeting: resolveTargeting(targeting) };
+}
+
+/**
+ * Validates a competitor request body and applies defaults
+ */
+export function parseCompetitorConfig(body: CompetitorRequestBody): CompetitorCrawlerConfig {
+    const {
+        urls,
+        includeSnapshots,
+        mode,
+        maxDepth,
+        maxPages,
+        includePatterns,
+        excludePatterns,
+        useSitemap,
+        snapshotRetention,
+        checkLinks,
+        screenshots,
+        watch,
+        linkGraph,
+        ...politeness
+    } = body ?? {};
+
+    validateUrls(urls);
+
+    if (mode !== undefined && mode !== 'pages' && mode !== 'site') {
+        throw new ValidationError('Invalid request: "mode" must be "pages" or "site"');
+    }
+
+    validateSnapshotRetention(snapshotRetention);
+
+    const linkCheck = checkLinks === undefined || typeof checkLinks === 'boolean'
+        ? checkLinks ?? false
+        : parseLinkCheckOptions(checkLinks, 'checkLinks');
+
+    if (screenshots !== undefined && typeof screenshots !== 'boolean') {
+        throw new ValidationError('Invalid request: "screenshots" must be a boolean');
+    }
+
+    validateWatchTargets(watch);
+    const politenessOptions = parsePolitenessOptions(politeness);
+
+    if (linkGraph !== undefined && typeof linkGraph !== 'boolean') {
+        throw new ValidationError('Invalid request: "linkGraph" must be a boolean');
+    }
+
+    if (mode !== 'site') {
+        if (linkGraph) {
+            throw new ValidationError('Invalid request: "linkGraph" needs "mode": "site"');
+        }
+        return {
+            urls,
+            includeSnapshots: includeSnapshots ?? true,
+            mode: 'pages',
+            snapshotRetention,
+            checkLinks: linkCheck,
+            screenshots: screenshots ?? false,
+            watch,
+            ...politenessOptions,
+        };
+    }
+
+    if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_SITE_DEPTH)) {
+        throw new ValidationError(`Invalid request: "maxDepth" must be an integer between 0 and ${MAX_SITE_DEPTH}`);
+    }
+    if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_SITE_PAGES)) {
+        throw new ValidationError(`Invalid request: "maxPages" must be an integer between 1 and ${MAX_SITE_PAGES}`);
+    }
+    validateUrlPatterns(includePatterns, 'includePatterns');
+    validateUrlPatterns(excludePatterns, 'excludePatterns');
+    if (useSitemap !== undefined && typeof useSitemap !== 'boolean') {
+        throw new ValidationError('Invalid request: "useSitemap" must be a boolean');
+    }
+
+    return {
+        urls,
+        includeSnapshots: includeSnapshots ?? true,
+        mode,
+        maxDepth: maxDepth ?? 2,
+        maxPages: maxPages ?? 100,
+        includePatterns,
+        excludePatterns,
+        useSitemap: useSitemap ?? true,
+        linkGraph: linkGraph ?? false,
+        snapshotRetention,
+        checkLinks: linkCheck,
+        screenshots: screenshots ?? false,
+        watch,
+        ...politenessOptions,
+    };
+}
+
+/**
+ * Checks each watch target's URL or pattern and its extraction rules
+ */
+function validateWatchTargets(watch: unknown): asserts watch is WatchTarget[] | undefined {
+    if (watch === undefined) return;
+    if (!Array.isArray(watch)) {
+        throw new ValidationError('Invalid request: "watch" must be an array of { url or urlPattern, rules }');
+    }
+
+    watch.forEach((target: WatchTarget, i) => {
+        const field = `watch[${i}]`;
+        if (!target || typeof target !== 'object') {
+            throw new ValidationError(`Invalid request: "${field}" must be an object`);
+        }
+        if ((target.url === undefined) === (target.urlPattern === undefined)) {
+            throw new ValidationError(`Invalid request: "${field}" must have either "url" or "urlPattern"`);
+        }
+        if (target.url !== undefined) {
+            if (typeof target.url !== 'string') {
+                throw new ValidationError(`Invalid request: "${field}.url" must be a URL string`);
+            }
+            validateUrls([target.url]);
+        } else {
+            validateRegex(target.urlPattern, `${field}.urlPattern`);
+        }
+
+        if (!Array.isArray(target.rules) || target.rules.length === 0 || target.rules.length > MAX_WATCH_RULES) {
+            throw new ValidationError(`Invalid request: "${field}.rules" must be an array of 1 to ${MAX_WATCH_RULES} rules`);
+        }
+        const names = new Set<string>();
+        target.rules.forEach((rule, j) => {
+            validateWatchRule(rule, `${field}.rules[${j}]`);
+            if (names.has(rule.name)) {
+                throw new ValidationError(`Invalid request: "${field}" has more than one rule named "${rule.name}"`);
+            }
+            names.add(rule.name);
+        });
+    });
+}
+
+function validateWatchRule(rule: WatchRule, field: string): void {
+    if (!rule || typeof rule !== 'object') {
+        throw new ValidationError(`Invalid request: "${field}" must be an object`);
+    }
+    const { name, selector, xpath, attribute, pattern, type, minChangePercent, minChange } = rule;
+
+    if (typeof name !== 'string' || !name.trim()) {
+        throw new ValidationError(`Invalid request: "${field}.name" must be a non-empty string`);
+    }
+    if ((selector === undefined) === (xpath === undefined)) {
+        throw new ValidationError(`Invalid request: "${field}" must have either "selector" or "xpath"`);
+    }
+    for (const [key, value] of Object.entries({ selector, xpath, attribute })) {
+        if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+            throw new ValidationError(`Invalid request: "${field}.${key}" must be a non-empty string`);
+        }
+    }
+    if (pattern !== undefined) {
+        validateRegex(pattern, `${field}.pattern`);
+    }
+    if (type !== undefined && type !== 'text' && type !== 'number') {
+        throw new ValidationError(`Invalid request: "${field}.type" must be "text" or "number"`);
+    }
+    for (const [key, value] of Object.entries({ minChangePercent, minChange })) {
+        if (value === undefined) continue;
+        if (type !== 'number') {
+            throw new ValidationError(`Invalid request: "${field}.${key}" only applies to "number" rules`);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            throw new ValidationError(`Invalid request: "${field}.${key}" must be a non-negative number`);
+        }
+    }
+}
+
+/**
+ * Validates a content gap request body and applies defaults
+ */
+export function parseContentGapConfig(body: ContentGapRequestBody): ContentGapConfig {
+    const { url, competitorUrls, maxNgram, maxTerms, minCompetitors, ...politeness } = body ?? {};
+
+    if (typeof url !== 'string' || !url) {
+        throw new ValidationError('Invalid request: "url" must be the URL of our page');
+    }
+    validateUrls([url]);
+
+    if (!Array.isArray(competitorUrls) || competitorUrls.length === 0) {
+        throw new ValidationError('Invalid request: "competitorUrls" must be a non-empty array of URL strings');
+    }
+    validateUrls(competitorUrls);
+
+    const competitors = Array.from(new Set(competitorUrls)).filter(competitorUrl => competitorUrl !== url);
+    if (competitors.length === 0 || competitors.length > MAX_GAP_COMPETITORS) {
+        throw new ValidationError(`Invalid request: "competitorUrls" must list 1 to ${MAX_GAP_COMPETITORS} pages other than "url"`);
+    }
+
+    if (maxNgram !== undefined && (!Number.isInteger(maxNgram) || maxNgram < 1 || maxNgram > MAX_GAP_NGRAM)) {
+        throw new ValidationError(`Invalid request: "maxNgram" must be an integer between 1 and ${MAX_GAP_NGRAM}`);
+    }
+    if (maxTerms !== undefined && (!Number.isInteger(maxTerms) || maxTerms < 1 || maxTerms > MAX_GAP_TERMS)) {
+        throw new ValidationError(`Invalid request: "maxTerms" must be an integer between 1 and ${MAX_GAP_TERMS}`);
+    }
+    if (minCompetitors !== undefined && (!Number.isInteger(minCompetitors) || minCompetitors < 1 || minCompetitors > competitors.length)) {
+        throw new ValidationError(`Invalid request: "minCompetitors" must be an integer between 1 and ${competitors.length}`);
+    }
+
+    return {
+        url,
+        competitorUrls: competitors,
+        maxNgram: maxNgram ?? MAX_GAP_NGRAM,
+        maxTerms: maxTerms ?? 50,
+        minCompetitors: minCompetitors ?? Math.ceil(competitors.length / 2),
+        ...parsePolitenessOptions(politeness),
+    };
+}
+
+/**
+ * Validates a link check request body
+ */
+export function parseLinkCheckerConfig(body: LinkCheckRequestBody): LinkCheckerConfig {
+    const { urls, ...options } = body ?? {};
+
+    validateUrls(urls);
+
+    return { urls, ...parseLinkCheckOptions(options), ...parsePolitenessOptions(options) };
+}
+
+/**
+ * Validates link check options, given at the top level or nested under `field`
+ */
+function parseLinkCheckOptions(options: LinkCheckOptions, field?: string): LinkCheckOptions {
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        throw new ValidationError(`Invalid request: "${field}" must be a boolean or an object`);
+    }
+
+    const prefix = field ? `${field}.` : '';
+
+    const { concurrency, timeoutMs, maxRedirectHops, checkExternal } = options;
+
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_LINK_CONCURRENCY)) {
+        throw new ValidationError(`Invalid request: "${prefix}concurrency" must be an integer between 1 and ${MAX_LINK_CONCURRENCY}`);
+    }
+    if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 1000 || timeoutMs > MAX_LINK_TIMEOUT_MS)) {
+        throw new ValidationError(`Invalid request: "${prefix}timeoutMs" must be an integer between 1000 and ${MAX_LINK_TIMEOUT_MS}`);
+    }
+    if (maxRedirectHops !== undefined && (!Number.isInteger(maxRedirectHops) || maxRedirectHops < 0 || maxRedirectHops > MAX_REDIRECT_HOPS)) {
+        throw new ValidationError(`Invalid request: "${prefix}maxRedirectHops" must be an integer between 0 and ${MAX_REDIRECT_HOPS}`);
+    }
+    if (checkExternal !== undefined && typeof checkExternal !== 'boolean') {
+        throw new ValidationError(`Invalid request: "${prefix}checkExternal" must be a boolean`);
+    }
+
+    return { concurrency, timeoutMs, maxRedirectHops, checkExternal };
+}
+
+/**
+ * Validates the robots.txt and rate limit options every crawler accepts
+ */
+function parsePolitenessOptions(options: PolitenessOptions): PolitenessOptions {
+    const { respectRobotsTxt, robotsUserAgent, hostDelayMs } = options;
+
+    if (respectRobotsTxt !== undefined && typeof respectRobotsTxt !== 'boolean') {
+        throw new ValidationError('Invalid request: "respectRobotsTxt" must be a boolean');
+    }
+    if (robotsUserAgent !== undefined && (typeof robotsUserAgent !== 'string' || !robotsUserAgent.trim())) {
+        throw new ValidationError('Invalid request: "robotsUserAgent" must be a non-empty string');
+    }
+    if (hostDelayMs !== undefined && (!Number.isInteger(hostDelayMs) || hostDelayMs < 0 || hostDelayMs > MAX_HOST_DELAY_MS)) {
+        throw new ValidationError(`Invalid request: "hostDelayMs" must be an integer between 0 and ${MAX_HOST_DELAY_MS}`);
+    }
+
+    return { respectRobotsTxt, robotsUserAgent: robotsUserAgent?.trim(), hostDelayMs };
+}
+
+/**
+ * Checks that `urls` is a non-empty array of absolute URLs
+ */
+function validateUrls(urls: unknown): asserts urls is string[] {
+    if (!urls || !Array.isArray(urls) || urls.length === 0) {
+        throw new ValidationError('Invalid request: "urls" must be a non-empty array of URL strings');
+    }
+
+    for (const url of urls) {
+        try {
+            new URL(url);
+        } catch {
+            throw new ValidationError(`Invalid URL: "${url}"`);
+        }
+    }
+}
+
+function validateSnapshotRetention(retention: SnapshotRetention | undefined): void {
+    if (retention === undefined) return;
+    if (!retention || typeof retention !== 'object') {
+        throw new ValidationError('Invalid request: "snapshotRetention" must be an object');
+    }
+
+    const { maxVersions, maxAgeDays } = retention;
+    if (maxVersions !== undefined && (!Number.isInteger(maxVersions) || maxVersions < 1 || maxVersions > MAX_SNAPSHOT_VERSIONS)) {
+        throw new ValidationError(`Invalid request: "snapshotRetention.maxVersions" must be an integer between 1 and ${MAX_SNAPSHOT_VERSIONS}`);
+    }
+    if (maxAgeDays !== undefined && (typeof maxAgeDays !== 'number' || !(maxAgeDays > 0))) {
+        throw new ValidationError('Invalid request: "snapshotRetention.maxAgeDays" must be a positive number');
+    }
+}
+
+/**
+ * Checks that URL patterns are an array of valid regular expressions
+ */
+function validateRegex(pattern: unknown, field: string): void {
+    if (typeof pattern !== 'string') {
+        throw new ValidationError(`Invalid request: "${field}" must be a regular expression string`);
+    }
+    try {
+        new RegExp(pattern);
+    } catch {
+        throw new ValidationError(`Invalid request: "${field}" is not a valid regular expression: "${pattern}"`);
+    }
+}
+
+function validateUrlPatterns(patterns: unknown, field: string): void {
+    if (patterns === undefined) return;
+    if (!Array.isArray(patterns) || !patterns.every(p => typeof p === 'string')) {
+        throw new ValidationError(`Invalid request: "${field}" must be an array of regular expression strings`);
+    }
+    for (const pattern of patterns) {
+        try {
+            new RegExp(pattern);
+        } catch {
+            throw new ValidationError(`Invalid request: "${field}" contains an invalid regular expression: "${pattern}"`);
+        }
+    }
+}
+
+/**
+ * Validates the query of a snapshot diff request (version numbers are optional)
+ */
+export function parseSnapshotDiffQuery(query: Record<string, unknown>): SnapshotDiffQuery {
+    const { url } = query;
+    if (typeof url !== 'string' || !url) {
+        throw new ValidationError('Invalid query: "url" is required');
+    }
+
+    const parseVersion = (name: 'from' | 'to'): number | undefined => {
+        const value = query[name];
+        if (value === undefined) return undefined;
+        const version = Number(value);
+        if (typeof value !== 'string' || !Number.isInteger(version) || version < 1) {
+            throw new ValidationError(`Invalid query: "${name}" must be a version number`);
+        }
+        return version;
+    };
+
+    return { url, from: parseVersion('from'), to: parseVersion('to') };
+}
+
+/**
+ * Validates the query of a screenshot download (viewport defaults to desktop, version to the latest)
+ */
+export function parseScreenshotQuery(query: Record<string, unknown>): ScreenshotQuery {
+    const { url, viewport = 'desktop', version, diff } = query;
+    if (typeof url !== 'string' || !url) {
+        throw new ValidationError('Invalid query: "url" is required');
+    }
+    if (viewport !== 'desktop' && viewport !== 'mobile') {
+        throw new ValidationError('Invalid query: "viewport" must be "desktop" or "mobile"');
+    }
+
+    const versionNumber = Number(version);
+    if (version !== undefined && (typeof version !== 'string' || !Number.isInteger(versionNumber) || versionNumber < 1)) {
+        throw new ValidationError('Invalid query: "version" must be a version number');
+    }
+    if (diff !== undefined && diff !== 'true' && diff !== 'false') {
+        throw new ValidationError('Invalid query: "diff" must be "true" or "false"');
+    }
+
+    return {
+        url,
+        viewport,
+        version: version !== undefined ? versionNumber : undefined,
+        diff: diff === 'true',
+    };
+}
+
+/**
+ * Validates a link graph export query; any URL on the site identifies it
+ */
+export function parseLinkGraphQuery(query: Record<string, unknown>): LinkGraphQuery {
+    const { site, format = 'json', table = 'edges' } = query;
+    if (typeof site !== 'string' || !site) {
+        throw new ValidationError('Invalid query: "site" is required');
+    }
+    let origin: string;
+    try {
+        origin = new URL(site).origin;
+    } catch {
+        throw new ValidationError(`Invalid URL: "${site}"`);
+    }
+    if (format !== 'json' && format !== 'gexf' && format !== 'csv') {
+        throw new ValidationError('Invalid query: "format" must be "json", "gexf" or "csv"');
+    }
+    if (table !== 'edges' && table !== 'nodes') {
+        throw new ValidationError('Invalid query: "table" must be "edges" or "nodes"');
+    }
+
+    return { site: origin, format, table };
+}
+
+/**
+ * Validates a review trends query (interval defaults to month)
+ */
+export function parseReviewTrendsQuery(query: Record<string, unknown>): ReviewTrendsQuery {
+    const { businessName, source, interval = 'month', from, to } = query;
+
+    if (businessName !== undefined && (typeof businessName !== 'string' || !businessName.trim())) {
+        throw new ValidationError('Invalid query: "businessName" must be a non-empty string');
+    }
+    if (source !== undefined && !REVIEW_SOURCE_TYPES.includes(source as ReviewSourceType)) {
+        throw new ValidationError(`Invalid query: "source" must be one of: ${REVIEW_SOURCE_TYPES.join(', ')}`);
+    }
+    if (interval !== 'week' && interval !== 'month') {
+        throw new ValidationError('Invalid query: "interval" must be "week" or "month"');
+    }
+
+    const parseDate = (name: 'from' | 'to', value: unknown): string | undefined => {
+        if (value === undefined) return undefined;
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+            throw new ValidationError(`Invalid query: "${name}" must be a date (YYYY-MM-DD)`);
+        }
+        return value;
+    };
+    const fromDate = parseDate('from', from);
+    const toDate = parseDate('to', to);
+    if (fromDate && toDate && fromDate > toDate) {
+        throw new ValidationError('Invalid query: "from" must not be after "to"');
+    }
+
+    return {
+        ...(businessName ? { businessName: businessName as string } : {}),
+        ...(source ? { source: source as ReviewSourceType } : {}),
+        interval,
+        ...(fromDate ? { from: fromDate } : {}),
+        ...(toDate ? { to: toDate } : {}),
+    };
+}
+
+/**
+ * Validates a reviews request body and applies defaults
+ */
+export function parseReviewConfig(body: ReviewsRequestBody): ReviewCrawlerConfig {
+    const { sources, maxReviewsPerSource, incremental, analyze, ...politeness } = body ?? {};
+
+    if (!sources || !Array.isArray(sources) || sources.length === 0) {
+        throw new ValidationError('Invalid request: "sources" must be a non-empty array');
+    }
+
+    const parsedSources: ReviewSource[] = sources.map(source => {
+        if (source.type !== undefined && !REVIEW_SOURCE_TYPES.includes(source.type)) {
+            throw new ValidationError(`Invalid source type. Must be one of: ${REVIEW_SOURCE_TYPES.join(', ')}`);
+        }
+        if (!source.url || typeof source.url !== 'string' || !/^https?:\/\//.test(source.url)) {
+            throw new ValidationError('Each source must have a valid "url" string');
+        }
+        try {
+            new URL(source.url);
+        } catch {
+            throw new ValidationError(`Invalid URL: "${source.url}"`);
+        }
+        if (!source.businessName || typeof source.businessName !== 'string') {
+            throw new ValidationError('Each source must have a valid "businessName" string');
+        }
+
+        const type = source.type ?? detectReviewSourceType(source.url);
+        // The App Store feed is looked up by the app ID in the URL
+        if (type === 'app-store' && !getReviewSourceAdapter(type).matchesUrl(new URL(source.url))) {
+            throw new ValidationError(`App Store sources need an app URL with its ID, e.g. https://apps.apple.com/us/app/name/id123456789: "${source.url}"`);
+        }
+        return { type, url: source.url, businessName: source.businessName };
+    });
+
+    if (maxReviewsPerSource !== undefined && (!Number.isInteger(maxReviewsPerSource) || maxReviewsPerSource < 1 || maxReviewsPerSource > MAX_REVIEWS_PER_SOURCE)) {
+        throw new ValidationError(`Invalid request: "maxReviewsPerSource" must be an integer between 1 and ${MAX_REVIEWS_PER_SOURCE}`);
+    }
+    if (incremental !== undefined && typeof incremental !== 'boolean') {
+        throw new ValidationError('Invalid request: "incremental" must be a boolean');
+    }
+    if (analyze !== undefined && typeof analyze !== 'boolean') {
+        throw new ValidationError('Invalid request: "analyze" must be a boolean');
+    }
+
+    return {
+        sources: parsedSources,
+        maxReviewsPerSource: maxReviewsPerSource ?? 50,
+        incremental: incremental ?? false,
+        analyze: analyze ?? true,
+        ...parsePolitenessOptions(politeness),
+    };
+}
+
+/**
+ * Validates a review analysis request body. Only the text and rating are required; other
+ * review fields are passed through.
+ */
+export function parseReviewAnalysisRequest(body: ReviewAnalysisRequestBody): Review[] {
+    const { reviews } = body ?? {};
+
+    if (!Array.isArray(reviews) || reviews.length === 0) {
+        throw new ValidationError('Invalid request: "reviews" must be a non-empty array');
+    }
+    if (reviews.length > MAX_ANALYZED_REVIEWS) {
+        throw new ValidationError(`Invalid request: at most ${MAX_ANALYZED_REVIEWS} reviews can be analyzed at once`);
+    }
+
+    reviews.forEach((review, i) => {
+        if (!review || typeof review !== 'object' || typeof review.reviewText !== 'string') {
+            throw new ValidationError(`Invalid request: reviews[${i}] must have a "reviewText" string`);
+        }
+        if (review.rating !== undefined && (typeof review.rating !== 'number' || review.rating < 0 || review.rating > 5)) {
+            throw new ValidationError(`Invalid request: reviews[${i}].rating must be a number between 0 and 5`);
+        }
+    });
+
+    return reviews.map(review => ({ ...review, rating: review.rating ?? 0 }));
+}
+
+/**
+ * Validates the config for any crawler type
+ */
+export function parseCrawlerConfig<T extends CrawlerType>(type: T, body: unknown): CrawlerConfigMap[T] {
+    switch (type) {
+        case 'serp':
+            return parseSerpConfig(body as SerpRequestBody) as CrawlerConfigMap[T];
+        case 'competitor':
+            return parseCompetitorConfig(body as CompetitorRequestBody) as CrawlerConfigMap[T];
+        case 'reviews':
+            return parseReviewConfig(body as ReviewsRequestBody) as CrawlerConfigMap[T];
+        default:
+            throw new ValidationError(`Invalid crawler type. Must be one of: ${CRAWLER_TYPES.join(', ')}`);
+    }
+}
+
+/**
+ * Validates a schedule body, including the saved crawler config
+ */
+export function parseScheduleInput(body: ScheduleRequestBody): CrawlScheduleInput {
+    const { name, type, config, cron, timezone, enabled, webhook } = body ?? {};
+
+    if (!CRAWLER_TYPES.includes(type)) {
+        throw new ValidationError(`Invalid request: "type" must be one of: ${CRAWLER_TYPES.join(', ')}`);
+    }
+    if (name != null && (typeof name !== 'string' || !name.trim())) {
+        throw new ValidationError('Invalid request: "name" must be a non-empty string');
+    }
+    if (timezone != null) {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        } catch {
+            throw new ValidationError(`Invalid request: unknown "timezone" "${timezone}"`);
+        }
+    }
+    if (!cron || typeof cron !== 'string') {
+        throw new ValidationError('Invalid request: "cron" must be a cron expression such as "0 6 * * *"');
+    }
+    try {
+        new Cron(cron, { paused: true, timezone: timezone ?? undefined }).stop();
+    } catch (e) {
+        throw new ValidationError(`Invalid request: "cron" is not a valid cron expression (${e instanceof Error ? e.message : e})`);
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+        throw new ValidationError('Invalid request: "enabled" must be a boolean');
+    }
+
+    const parsedConfig = parseCrawlerConfig(type, config);
+    const parsedWebhook = webhook ? parseWebhookConfig(webhook) : undefined;
+
+    // Rank drops are measured against earlier runs, which are only kept with persistHistory
+    if (type === 'serp' && parsedWebhook?.notifyOn === 'notable') {
+        const { persistHistory, trackedDomains } = parsedConfig as CrawlerConfigMap['serp'];
+        if (!persistHistory || !trackedDomains?.length) {
+            throw new ValidationError(
+                'Invalid request: "webhook.notifyOn": "notable" on a SERP schedule needs "config.persistHistory" and "config.trackedDomains" to detect rank drops',
+            );
+        }
+    }
+
+    return {
+        ...(name ? { name: name.trim() } : {}),
+        type,
+        config: parsedConfig,
+        cron: cron.trim(),
+        ...(timezone ? { timezone } : {}),
+        enabled: enabled ?? true,
+        ...(parsedWebhook ? { webhook: parsedWebhook } : {}),
+    };
+}
+
+/**
+ * Applies a partial update to a schedule's settings and validates the result.
+ * Setting an optional field to null removes it.
+ */
+export function parseScheduleUpdate(body: Partial<ScheduleRequestBody>, existing: CrawlScheduleInput): CrawlScheduleInput {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new ValidationError('Invalid request: body must be an object');
+    }
+    if (body.type !== undefined && body.type !== existing.type && body.config === undefined) {
+        throw new ValidationError('Invalid request: "config" is required when changing "type"');
+    }
+
+    return parseScheduleInput({ ...existing, ...body } as ScheduleRequestBody);
+}
+
+function parseWebhookConfig(webhook: WebhookConfig): WebhookConfig {
+    const { url, secret, notifyOn, rankDropThreshold } = webhook;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new ValidationError('Invalid request: "webhook.url" must be a valid URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new ValidationError('Invalid request: "webhook.url" must be an http(s) URL');
+    }
+    if (secret !== undefined && (typeof secret !== 'string' || !secret)) {
+        throw new ValidationError('Invalid request: "webhook.secret" must be a non-empty string');
+    }
+    if (notifyOn !== undefined && notifyOn !== 'always' && notifyOn !== 'notable') {
+        throw new ValidationError('Invalid request: "webhook.notifyOn" must be "always" or "notable"');
+    }
+    if (rankDropThreshold !== undefined && (!Number.isInteger(rankDropThreshold) || rankDropThreshold < 1)) {
+        throw new ValidationError('Invalid request: "webhook.rankDropThreshold" must be a positive integer');
+    }
+
+    return {
+        url,
+        ...(secret ? { secret } : {}),
+        notifyOn: notifyOn ?? 'always',
+        ...(rankDropThreshold ? { rankDropThreshold } : {}),
+    };
+}
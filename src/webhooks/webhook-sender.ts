@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import type { WebhookConfig, WebhookDelivery, WebhookPayload } from '../types/index.js';
+
+// First attempt plus three retries, backing off 2s, 4s, 8s
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", hex encoded. Receivers recompute it with the shared
+ * secret and can reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POSTs the payload to the webhook URL. Network errors, timeouts, 429 and 5xx responses are
+ * retried with exponential backoff; other 4xx responses fail immediately.
+ */
+export async function deliverWebhook(webhook: WebhookConfig, payload: WebhookPayload): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload);
+    const deliveryId = crypto.randomUUID();
+
+    let attempts = 0;
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    while (attempts < MAX_ATTEMPTS) {
+        if (attempts > 0) {
+            await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)));
+        }
+        attempts++;
+
+        // Signed per attempt so the timestamp stays fresh on retries
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'X-Webhook-Event': payload.event,
+            'X-Webhook-Delivery': deliveryId,
+            'X-Webhook-Timestamp': timestamp,
+        };
+        if (webhook.secret) {
+            headers['X-Webhook-Signature'] = `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`;
+        }
+
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            responseStatus = response.status;
+
+            if (response.ok) {
+                return createDelivery(payload, 'delivered', attempts, responseStatus);
+            }
+
+            error = `HTTP ${response.status}`;
+            if (response.status !== 429 && response.status < 500) break;
+        } catch (e) {
+            responseStatus = undefined;
+            error = e instanceof Error ? e.message : String(e);
+        }
+
+        console.warn(`Webhook delivery ${deliveryId} attempt ${attempts} failed: ${error}`);
+    }
+
+    return createDelivery(payload, 'failed', attempts, responseStatus, error);
+}
+
+function createDelivery(
+    payload: WebhookPayload,
+    status: WebhookDelivery['status'],
+    attempts: number,
+    responseStatus?: number,
+    error?: string,
+): WebhookDelivery {
+    return {
+        jobId: payload.job.id,
+        status,
+        attempts,
+        ...(responseStatus !== undefined ? { responseStatus } : {}),
+        ...(error ? { error } : {}),
+        events: payload.events,
+        at: new Date().toISOString(),
+    };
+}
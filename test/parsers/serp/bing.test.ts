@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBingSerp } from '../../../src/parsers/serp/index.js';
+import { CRAWLED_AT, loadSerpFixture } from './fixtures.js';
+
+const parsed = parseBingSerp(loadSerpFixture('bing'), {
+    keyword: 'seo basics',
+    pageUrl: 'https://www.bing.com/search?q=seo+basics',
+    crawledAt: CRAWLED_AT,
+});
+
+test('numbers positions per result type', () => {
+    assert.deepEqual(
+        parsed.results.map(({ resultType, position, title }) => ({ resultType, position, title })),
+        [
+            { resultType: 'ad', position: 1, title: 'Semrush SEO Toolkit - Grow Your Organic Traffic' },
+            { resultType: 'featured_snippet', position: 1, title: 'What is SEO?' },
+            { resultType: 'organic', position: 1, title: "The Beginner's Guide to SEO - Moz" },
+            { resultType: 'organic', position: 2, title: "SEO Basics: Beginner's Guide to SEO Success" },
+            { resultType: 'organic', position: 3, title: 'What Is SEO? Search Engine Optimization 101' },
+        ],
+    );
+});
+
+test('decodes /ck/a redirect links and keeps direct links', () => {
+    const urls = parsed.results.filter(result => result.resultType !== 'ad').map(result => result.url);
+    assert.deepEqual(urls, [
+        'https://developers.google.com/search/docs/fundamentals/seo-starter-guide',
+        'https://moz.com/beginners-guide-to-seo',
+        'https://ahrefs.com/blog/seo-basics/',
+        'https://www.semrush.com/blog/what-is-seo/',
+    ]);
+});
+
+test('reads the answer box text and result captions', () => {
+    const [, answer, moz, ahrefs] = parsed.results;
+    assert.equal(answer.description, 'Search engine optimization');
+    assert.equal(moz.description, 'New to SEO? Learn how search engines crawl, index and rank pages.');
+    assert.equal(ahrefs.description, 'SEO basics are the fundamentals of ranking higher in search engines.');
+});
+
+test('collects People Also Ask questions and related searches', () => {
+    assert.deepEqual(parsed.summary.peopleAlsoAsk, ['What are the 4 types of SEO?', 'How do I start learning SEO?']);
+    assert.deepEqual(parsed.summary.relatedSearches, ['seo basics for beginners', 'seo basics checklist']);
+    assert.equal(parsed.summary.knowledgePanel, null);
+});
+
+test('summarizes the features on the page', () => {
+    assert.deepEqual(parsed.summary.features, ['ad', 'featured_snippet', 'people_also_ask', 'related_searches']);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDuckDuckGoSerp } from '../../../src/parsers/serp/index.js';
+import { CRAWLED_AT, loadSerpFixture } from './fixtures.js';
+
+const parsed = parseDuckDuckGoSerp(loadSerpFixture('duckduckgo'), {
+    keyword: 'seo basics',
+    pageUrl: 'https://html.duckduckgo.com/html/?q=seo+basics',
+    crawledAt: CRAWLED_AT,
+});
+
+test('separates ads from organic results and numbers each', () => {
+    assert.deepEqual(
+        parsed.results.map(({ resultType, position }) => ({ resultType, position })),
+        [
+            { resultType: 'ad', position: 1 },
+            { resultType: 'organic', position: 1 },
+            { resultType: 'organic', position: 2 },
+            { resultType: 'organic', position: 3 },
+        ],
+    );
+});
+
+test('decodes uddg redirect links and keeps direct links', () => {
+    assert.deepEqual(
+        parsed.results.filter(result => result.resultType === 'organic').map(result => result.url),
+        [
+            'https://moz.com/beginners-guide-to-seo',
+            'https://ahrefs.com/blog/seo-basics/',
+            'https://www.semrush.com/blog/what-is-seo/',
+        ],
+    );
+});
+
+test('reads titles and snippets', () => {
+    const moz = parsed.results[1];
+    assert.equal(moz.title, "The Beginner's Guide to SEO - Moz");
+    assert.equal(moz.description, 'New to SEO? Learn how search engines crawl, index and rank pages.');
+});
+
+test('reports no features the HTML endpoint does not show', () => {
+    assert.deepEqual(parsed.summary, {
+        keyword: 'seo basics',
+        features: ['ad'],
+        peopleAlsoAsk: [],
+        relatedSearches: [],
+        knowledgePanel: null,
+    });
+});
+
+test('stops at maxResults organic results but keeps ads', () => {
+    const limited = parseDuckDuckGoSerp(loadSerpFixture('duckduckgo'), { keyword: 'seo basics', maxResults: 1, crawledAt: CRAWLED_AT });
+    assert.deepEqual(limited.results.map(result => result.resultType), ['ad', 'organic']);
+});
@@ -0,0 +1,10 @@
+import { readFileSync } from 'fs';
+
+export const CRAWLED_AT = '2024-06-01T00:00:00.000Z';
+
+/**
+ * Saved results page HTML from test/fixtures/serp
+ */
+export function loadSerpFixture(name: string): string {
+    return readFileSync(new URL(`../../fixtures/serp/${name}.html`, import.meta.url), 'utf8');
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGoogleSerp } from '../../../src/parsers/serp/index.js';
+import { CRAWLED_AT, loadSerpFixture } from './fixtures.js';
+
+const parsed = parseGoogleSerp(loadSerpFixture('google'), {
+    keyword: 'seo basics',
+    pageUrl: 'https://www.google.com/search?q=seo+basics',
+    crawledAt: CRAWLED_AT,
+});
+
+test('numbers positions per result type and skips duplicate organic URLs', () => {
+    assert.deepEqual(
+        parsed.results.map(({ resultType, position, url }) => ({ resultType, position, url })),
+        [
+            { resultType: 'ad', position: 1, url: 'https://www.semrush.com/lp/seo-toolkit/' },
+            { resultType: 'featured_snippet', position: 1, url: 'https://developers.google.com/search/docs/fundamentals/seo-starter-guide' },
+            { resultType: 'organic', position: 1, url: 'https://moz.com/beginners-guide-to-seo' },
+            { resultType: 'organic', position: 2, url: 'https://ahrefs.com/blog/seo-basics/' },
+            { resultType: 'organic', position: 3, url: 'https://www.semrush.com/blog/what-is-seo/' },
+        ],
+    );
+    assert.ok(parsed.results.every(result => result.keyword === 'seo basics' && result.crawledAt === CRAWLED_AT));
+});
+
+test('reads titles and descriptions of ads, the featured snippet and organic results', () => {
+    const [ad, snippet, moz, ahrefs, semrush] = parsed.results;
+    assert.equal(ad.title, 'Semrush SEO Toolkit - Grow Your Organic Traffic');
+    assert.equal(ad.description, 'Everything you need for SEO in one place. Start your free trial today.');
+    assert.equal(snippet.title, 'SEO Starter Guide: The Basics | Google Search Central');
+    assert.match(snippet.description, /^SEO stands for search engine optimization/);
+    assert.equal(moz.title, "The Beginner's Guide to SEO - Moz");
+    assert.equal(ahrefs.description, 'SEO basics are the fundamentals of ranking higher in search engines.');
+    assert.equal(semrush.description, "SEO is the process of improving a website's visibility in organic search results.");
+});
+
+test('decodes /url?q= redirect links, including sitelinks', () => {
+    const moz = parsed.results.find(result => result.title.endsWith('Moz'));
+    assert.equal(moz?.url, 'https://moz.com/beginners-guide-to-seo');
+    assert.deepEqual(moz?.sitelinks, [
+        { title: 'Keyword Research', url: 'https://moz.com/beginners-guide-to-seo/keyword-research' },
+        { title: 'On-Page SEO', url: 'https://moz.com/beginners-guide-to-seo/on-page-seo' },
+        { title: 'How Search Engines Work', url: 'https://moz.com/beginners-guide-to-seo/how-search-engines-operate' },
+    ]);
+});
+
+test('does not count links inside People Also Ask answers as organic results', () => {
+    assert.ok(!parsed.results.some(result => result.url === 'https://www.example.com/types-of-seo'));
+});
+
+test('collects People Also Ask questions and related searches', () => {
+    assert.deepEqual(parsed.summary.peopleAlsoAsk, [
+        'What are the 4 types of SEO?',
+        'How do I start learning SEO?',
+        'Can I do SEO myself?',
+    ]);
+    assert.deepEqual(parsed.summary.relatedSearches, [
+        'seo basics for beginners',
+        'seo basics pdf',
+        'seo basics checklist',
+    ]);
+});
+
+test('reads the knowledge panel', () => {
+    assert.deepEqual(parsed.summary.knowledgePanel, {
+        title: 'Search engine optimization',
+        subtitle: 'Marketing practice',
+        description: 'Search engine optimization is the process of improving the quality and quantity of website traffic from search engines.',
+        website: 'https://en.wikipedia.org/wiki/Search_engine_optimization',
+        attributes: { Abbreviation: 'SEO', Related: 'Search engine marketing' },
+    });
+});
+
+test('summarizes the features on the page', () => {
+    assert.deepEqual(parsed.summary.features, [
+        'ad',
+        'featured_snippet',
+        'people_also_ask',
+        'related_searches',
+        'knowledge_panel',
+        'sitelinks',
+    ]);
+});
+
+test('stops at maxResults organic results', () => {
+    const limited = parseGoogleSerp(loadSerpFixture('google'), { keyword: 'seo basics', maxResults: 2, crawledAt: CRAWLED_AT });
+    assert.deepEqual(
+        limited.results.filter(result => result.resultType === 'organic').map(result => result.position),
+        [1, 2],
+    );
+});